@@ -3,6 +3,9 @@ export declare namespace DeletePostMutation {
     interface Arguments {
         id: any;
     }
+    /**
+     * Deletes post
+     */
     type deletePost = boolean;
 }
 export interface DeletePostMutation {
@@ -3,6 +3,9 @@ import { CATEGORY, DateTime } from './schema';
 export declare namespace GetAllPostsQuery {
     interface Arguments {
     }
+    /**
+     * Ge posts with limit and offset
+     */
     type posts = {
         author: posts.author;
         text: posts.text;
@@ -11,15 +14,33 @@ export declare namespace GetAllPostsQuery {
         postedAt: posts.postedAt;
     }[];
     namespace posts {
+        /**
+         * Post author
+         */
         type author = {
             name: author.name;
         };
         namespace author {
+            /**
+             * User full name
+             */
             type name = string;
         }
+        /**
+         * Post content
+         */
         type text = string;
+        /**
+         * Post category
+         */
         type category = CATEGORY;
+        /**
+         * Date when post was created
+         */
         type createdAt = DateTime;
+        /**
+         * Date when post was posted
+         */
         type postedAt = DateTime;
     }
 }
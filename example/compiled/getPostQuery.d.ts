@@ -4,6 +4,9 @@ export declare namespace GetPostQuery {
     interface Arguments {
         id: any;
     }
+    /**
+     * Get certain post
+     */
     type post = {
         author: post.author;
         category: post.category;
@@ -11,14 +14,29 @@ export declare namespace GetPostQuery {
         postedAt: post.postedAt;
     } | null;
     namespace post {
+        /**
+         * Post author
+         */
         type author = {
             name: author.name;
         };
         namespace author {
+            /**
+             * User full name
+             */
             type name = string;
         }
+        /**
+         * Post category
+         */
         type category = CATEGORY;
+        /**
+         * Date when post was created
+         */
         type createdAt = DateTime;
+        /**
+         * Date when post was posted
+         */
         type postedAt = DateTime;
     }
 }
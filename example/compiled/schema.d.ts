@@ -105,7 +105,7 @@ export declare namespace Query {
     type posts = PostedPost[];
     namespace posts {
         interface Arguments {
-            input: PostsInput | null;
+            input?: PostsInput | null;
         }
     }
 }
@@ -211,7 +211,7 @@ export declare namespace Mutation {
     type createPost = ModeratedPost;
     namespace createPost {
         interface Arguments {
-            data: PostData | null;
+            data?: PostData | null;
         }
     }
 }
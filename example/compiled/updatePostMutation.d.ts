@@ -5,10 +5,16 @@ export declare namespace UpdatePostMutation {
         id: any;
         text: string;
     }
+    /**
+     * Updates post and returns updated entity
+     */
     type updatePost = {
         updatedAt: updatePost.updatedAt;
     } | null;
     namespace updatePost {
+        /**
+         * Date when post was updated
+         */
         type updatedAt = DateTime | null;
     }
 }
@@ -3,6 +3,9 @@ import { CATEGORY, DateTime } from './schema';
 export declare namespace WaitForNewPostSubscription {
     interface Arguments {
     }
+    /**
+     * Returns newly created post
+     */
     type newPost = {
         author: newPost.author;
         category: newPost.category;
@@ -10,14 +13,29 @@ export declare namespace WaitForNewPostSubscription {
         postedAt: newPost.postedAt;
     };
     namespace newPost {
+        /**
+         * Post author
+         */
         type author = {
             name: author.name;
         };
         namespace author {
+            /**
+             * User full name
+             */
             type name = string;
         }
+        /**
+         * Post category
+         */
         type category = CATEGORY;
+        /**
+         * Date when post was created
+         */
         type createdAt = DateTime;
+        /**
+         * Date when post was posted
+         */
         type postedAt = DateTime;
     }
 }
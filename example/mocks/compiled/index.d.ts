@@ -0,0 +1,2 @@
+export { default as schema } from './schema';
+export * from './schema';
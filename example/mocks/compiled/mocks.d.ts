@@ -0,0 +1,52 @@
+import { Query, User, Post } from './schema';
+/**
+ * Generates scalar value from pseudo-random number in range [0, 1)
+ */
+export declare type ScalarGenerator = (random: number) => any;
+/**
+ * Sets seed of mocked values. Same seeds lead to same values
+ */
+export declare function seedMocks(value: number): void;
+/**
+ * Registers generator of scalar values. Input types of scalars with separate
+ * input and output types are registered as "Name.Input"
+ */
+export declare function registerScalarGenerator(name: string, generator: ScalarGenerator): void;
+/**
+ * Returns mocked scalar value. Throws an error in case, scalar has no
+ * generator
+ */
+export declare function mockScalar(name: string): any;
+/**
+ * Returns one of passed values
+ */
+export declare function mockOneOf<T>(values: T[]): T;
+/**
+ * Returns overridden value of field. Field is mocked only in case, it is
+ * not overridden
+ */
+export declare function mockField<T, K extends keyof T>(overrides: Partial<T>, field: K, mock: () => T[K]): T[K];
+/**
+ * Returns mocked nested object. Types already mocked in path to this object
+ * are mocked with null, so cyclic references do not lead to infinite
+ * recursion
+ */
+export declare function mockNested<T>(name: string, path: string[], factory: (overrides: {}, path: string[]) => T): T;
+/**
+ * Returns mocked Query
+ */
+export declare function mockQuery(overrides?: Partial<Query>, path?: string[]): Query & {
+    __typename: 'Query';
+};
+/**
+ * Returns mocked User
+ */
+export declare function mockUser(overrides?: Partial<User>, path?: string[]): User & {
+    __typename: 'User';
+};
+/**
+ * Returns mocked Post
+ */
+export declare function mockPost(overrides?: Partial<Post>, path?: string[]): Post & {
+    __typename: 'Post';
+};
@@ -0,0 +1,120 @@
+"use strict";
+var __spreadArrays = (this && this.__spreadArrays) || function () {
+    for (var s = 0, i = 0, il = arguments.length; i < il; i++) s += arguments[i].length;
+    for (var r = Array(s), k = 0, i = 0; i < il; i++)
+        for (var a = arguments[i], j = 0, jl = a.length; j < jl; j++, k++)
+            r[k] = a[j];
+    return r;
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+var seed = 1;
+/**
+ * Returns next pseudo-random number in range [0, 1)
+ */
+function random() {
+    seed = seed * 16807 % 2147483647;
+    return (seed - 1) / 2147483646;
+}
+var generators = {
+    ID: function (r) { return String(Math.floor(r * 1000000)); },
+    String: function (r) { return Math.floor(r * 2176782336).toString(36); },
+    Int: function (r) { return Math.floor(r * 1000); },
+    Float: function (r) { return Math.round(r * 100000) / 100; },
+    Boolean: function (r) { return r < 0.5; },
+};
+/**
+ * Sets seed of mocked values. Same seeds lead to same values
+ */
+function seedMocks(value) {
+    seed = Math.abs(Math.floor(value)) % 2147483646 + 1;
+}
+exports.seedMocks = seedMocks;
+/**
+ * Registers generator of scalar values. Input types of scalars with separate
+ * input and output types are registered as "Name.Input"
+ */
+function registerScalarGenerator(name, generator) {
+    generators[name] = generator;
+}
+exports.registerScalarGenerator = registerScalarGenerator;
+/**
+ * Returns mocked scalar value. Throws an error in case, scalar has no
+ * generator
+ */
+function mockScalar(name) {
+    if (!(name in generators)) {
+        throw new Error("Unable to mock scalar " + name + " as it has no generator. Register it "
+            + ("with registerScalarGenerator('" + name + "', random => ...)"));
+    }
+    return generators[name](random());
+}
+exports.mockScalar = mockScalar;
+/**
+ * Returns one of passed values
+ */
+function mockOneOf(values) {
+    return values[Math.floor(random() * values.length)];
+}
+exports.mockOneOf = mockOneOf;
+/**
+ * Returns overridden value of field. Field is mocked only in case, it is
+ * not overridden
+ */
+function mockField(overrides, field, mock) {
+    return field in overrides ? overrides[field] : mock();
+}
+exports.mockField = mockField;
+/**
+ * Returns mocked nested object. Types already mocked in path to this object
+ * are mocked with null, so cyclic references do not lead to infinite
+ * recursion
+ */
+function mockNested(name, path, factory) {
+    return path.includes(name) ? null : factory({}, path);
+}
+exports.mockNested = mockNested;
+/**
+ * Returns mocked Query
+ */
+function mockQuery(overrides, path) {
+    if (overrides === void 0) { overrides = {}; }
+    if (path === void 0) { path = []; }
+    var nested = __spreadArrays(path, ['Query']);
+    return {
+        __typename: 'Query',
+        me: mockField(overrides, 'me', function () { return mockNested('User', nested, mockUser); }),
+    };
+}
+exports.mockQuery = mockQuery;
+/**
+ * Returns mocked User
+ */
+function mockUser(overrides, path) {
+    if (overrides === void 0) { overrides = {}; }
+    if (path === void 0) { path = []; }
+    var nested = __spreadArrays(path, ['User']);
+    return {
+        __typename: 'User',
+        id: mockField(overrides, 'id', function () { return mockScalar('ID'); }),
+        name: mockField(overrides, 'name', function () { return mockScalar('String'); }),
+        bestFriend: mockField(overrides, 'bestFriend', function () { return mockNested('User', nested, mockUser); }),
+        pinnedPost: mockField(overrides, 'pinnedPost', function () { return mockNested('Post', nested, mockPost); }),
+        posts: mockField(overrides, 'posts', function () { return []; }),
+    };
+}
+exports.mockUser = mockUser;
+/**
+ * Returns mocked Post
+ */
+function mockPost(overrides, path) {
+    if (overrides === void 0) { overrides = {}; }
+    if (path === void 0) { path = []; }
+    var nested = __spreadArrays(path, ['Post']);
+    return {
+        __typename: 'Post',
+        id: mockField(overrides, 'id', function () { return mockScalar('ID'); }),
+        text: mockField(overrides, 'text', function () { return mockScalar('String'); }),
+        author: mockField(overrides, 'author', function () { return mockNested('User', nested, mockUser); }),
+    };
+}
+exports.mockPost = mockPost;
@@ -0,0 +1,38 @@
+export declare namespace Query {
+    /**
+     * Current user
+     */
+    type me = User;
+}
+export interface Query {
+    me: Query.me;
+}
+/**
+ * Users reference each other and their posts, posts reference their authors
+ */
+export declare namespace User {
+    type id = any;
+    type name = string;
+    type bestFriend = User;
+    type pinnedPost = Post;
+    type posts = Post[];
+}
+export interface User {
+    id: User.id;
+    name: User.name;
+    bestFriend: User.bestFriend;
+    pinnedPost: User.pinnedPost;
+    posts: User.posts;
+}
+export declare namespace Post {
+    type id = any;
+    type text = string;
+    type author = User;
+}
+export interface Post {
+    id: Post.id;
+    text: Post.text;
+    author: Post.author;
+}
+declare const schema: string;
+export default schema;
@@ -0,0 +1,4 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+var schema = "type Query {\n  \"Current user\"\n  me: User!\n}\n\n\"Users reference each other and their posts, posts reference their authors\"\ntype User {\n  id: ID!\n  name: String!\n  bestFriend: User!\n  pinnedPost: Post!\n  posts: [Post!]!\n}\n\ntype Post {\n  id: ID!\n  text: String!\n  author: User!\n}\n";
+exports.default = schema;
@@ -1,12 +1,52 @@
 #!/usr/bin/env node
 import {Command} from 'commander';
-import {compile} from './compiler';
+import * as path from 'path';
+import {check, compile, watch} from './compiler';
+import {red, yellow} from 'chalk';
+import {
+  findConfigPath,
+  isResolversParentsMap,
+  isScalarsMap,
+  loadConfig,
+} from './config';
 import {withCwd} from './fs';
-import {ScalarsMap} from './types';
+import {
+  CompileOptions,
+  PathType,
+  ResolversParentsMap,
+  ScalarsMap,
+  ValidationOptions,
+} from './types';
 
 const program = new Command('gql-types-generator');
 
+/**
+ * Returns schema path depending on passed globs. JSON file is considered
+ * as introspection result
+ * @param {string} schemaGlobs
+ * @returns {PathType}
+ */
+function getSchemaPath(schemaGlobs: string): PathType {
+  const globs = schemaGlobs.split(',');
+
+  if (globs.some(g => g.endsWith('.json'))) {
+    if (globs.length > 1) {
+      throw new Error(
+        'Introspection file cannot be combined with other schema files',
+      );
+    }
+    return {introspectionPath: withCwd(globs[0])};
+  }
+  return {glob: {cwd: process.cwd(), globs}};
+}
+
 program
+  .option(
+    '--config <path>',
+    'path to config file. By default, gql-types-generator.config.js or ' +
+    'gql-types-generator.config.json is searched in current directory. ' +
+    'Options passed via command line override config values',
+  )
   .option(
     '--operations <globs>',
     'globs to find queries and mutations',
@@ -20,18 +60,57 @@ program
     '--operations-wrap',
     'wraps operations with graphql-tag, making exports from ' +
     'operations not strings, but graphql\'s DocumentNode',
-    false,
+  )
+  .option(
+    '--operations-typed',
+    'exports operations as TypedDocumentNode from ' +
+    '@graphql-typed-document-node/core, so clients could infer result and ' +
+    'variables types. Implies --operations-wrap',
+  )
+  .option(
+    '--operations-hooks <client>',
+    'generates React hooks of operations for passed client library. Valid ' +
+    'values are "apollo" and "urql". Implies --operations-wrap',
+    /^(apollo|urql)$/,
+  )
+  .option(
+    '--operations-manifest <filename>',
+    'persisted queries manifest file name. If passed, manifest mapping ' +
+    'SHA-256 hashes of operations to their texts is written and each ' +
+    'operation exports its hash',
+  )
+  .option(
+    '--no-operations-validation',
+    'disables validation of operations against schema',
+  )
+  .option(
+    '--operations-validation-rules <rules>',
+    'comma separated names of validation rules to run. By default, all ' +
+    'graphql\'s specified rules are run',
+  )
+  .option(
+    '--operations-skip-validation-rules <rules>',
+    'comma separated names of validation rules to skip',
   )
   .option(
     '--operations-selection-separate',
-    'creates separated types for each selection set',
-    false,
+    'creates separated types for each selection set. Types are named by ' +
+    'path to selection set like GetPostQuery_post_author',
   )
   .option('--schema-file <filename>', 'schema file name')
+  .option(
+    '--schema-guards',
+    'generates runtime type guards of objects, interfaces, unions and ' +
+    'enums. Objects are checked by "__typename" field',
+  )
+  .option(
+    '--optional-input-fields',
+    'makes nullable and defaulted input fields optional the same way as ' +
+    'arguments and variables',
+  )
   .option(
     '--remove-description',
     'states if description should be removed',
-    false,
   )
   .option(
     '--display <sort>',
@@ -40,36 +119,106 @@ program
     'interfaces, inputs, unions and then types. "as-is" places types as they ' +
     'are placed in schema',
     /(as-is)|(default)/,
-    'default',
   )
   .option(
     '--scalars <scalars>',
     'defines scalars types. Must be a JSON, where key is scalar ' +
-    'name and value is its type',
+    'name and value is its type. Type could be imported from module with ' +
+    '{"module": "dayjs", "export": "Dayjs"}. Separate input and output ' +
+    'types are defined with {"input": "string", "output": "Date"}',
+  )
+  .option(
+    '--enum-style <style>',
+    'how to emit enums. Valid values are "enum", "const-enum", "union" and ' +
+    '"as-const". "union" emits union of string literals, "as-const" emits ' +
+    'constant object and union type of its values. By default, "enum" is used',
+    /^(enum|const-enum|union|as-const)$/,
+  )
+  .option(
+    '--entity-style <style>',
+    'how to emit objects, interfaces and inputs. Valid values are ' +
+    '"namespace" and "interface". "namespace" emits interface and namespace ' +
+    'containing fields types, "interface" emits interface with inline ' +
+    'fields types and separate interfaces of fields arguments named like ' +
+    'Query_post_Args. By default, "namespace" is used',
+    /^(namespace|interface)$/,
+  )
+  .option(
+    '--resolvers-file <filename>',
+    'resolvers file name. If passed, resolvers signatures are generated',
+  )
+  .option(
+    '--resolvers-parents <parents>',
+    'defines types passed as parents to resolvers. Must be a JSON, where ' +
+    'key is type name and value is its parent type. Parent type is defined ' +
+    'the same way as scalar type',
+  )
+  .option(
+    '--mocks-file <filename>',
+    'mocks file name. If passed, factories of mocked objects, inputs and ' +
+    'unions are generated',
+  )
+  .option(
+    '--output-mode <mode>',
+    'kind of output files. Valid values are "ts", "d.ts+js" and "d.ts". ' +
+    '"ts" writes TypeScript sources, "d.ts+js" writes declarations and ' +
+    'JavaScript code, "d.ts" writes declarations only. By default, ' +
+    '"d.ts+js" is used',
+    /^(ts|d\.ts\+js|d\.ts)$/,
+  )
+  .option(
+    '--output-module <module>',
+    'module kind of emitted JavaScript code. Valid values are "commonjs" ' +
+    'and "esm". By default, "commonjs" is used',
+    /^(commonjs|esm)$/,
+  )
+  .option(
+    '--output-target <target>',
+    'target of emitted JavaScript code. Valid values are "es3", "es5", ' +
+    '"es2015" - "es2020" and "esnext". By default, "es5" is used',
+    /^(es3|es5|es20(15|16|17|18|19|20)|esnext)$/,
   )
-  .requiredOption(
+  .option(
+    '--check',
+    'compiles types in memory and compares them with files in output ' +
+    'directory. Prints changes and exits with non-zero code if types are ' +
+    'outdated. Disk is not touched',
+  )
+  .option(
+    '--watch',
+    'watches schema and operations files and recompiles types when they ' +
+    'change',
+  )
+  .option(
     '--output-directory <path>',
     'path to directory where typings will be saved',
   )
-  .arguments('<schema-globs>')
+  .arguments('[schema-globs]')
   .action(async schemaPath => {
     let exitCode = 0;
 
     try {
       const {
         operations, removeDescription, display, outputDirectory, operationsFile,
-        schemaFile, operationsWrap, scalars,
+        schemaFile, operationsWrap, operationsTyped, operationsHooks,
+        operationsManifest, operationsSelectionSeparate, scalars,
+        operationsValidation,
+        operationsValidationRules, operationsSkipValidationRules, config,
+        watch: watchMode, check: checkMode, outputMode, outputModule,
+        outputTarget, enumStyle, entityStyle, schemaGuards, optionalInputFields,
+        resolversFile, resolversParents, mocksFile,
       } = program;
-      let scalarsParsed: ScalarsMap = {};
+      const configPath = config
+        ? path.resolve(config)
+        : findConfigPath(process.cwd());
+      let scalarsParsed: ScalarsMap | undefined;
 
       if (typeof scalars === 'string') {
         let error = false;
 
         try {
           scalarsParsed = JSON.parse(scalars);
-          error = Object.values(scalarsParsed).some(v => {
-            return typeof v !== 'string' && typeof v !== 'number';
-          });
+          error = !isScalarsMap(scalarsParsed);
         } catch (e) {
           error = true;
         }
@@ -82,27 +231,123 @@ program
         }
       }
 
-      await compile({
+      let parentsParsed: ResolversParentsMap | undefined;
+
+      if (typeof resolversParents === 'string') {
+        let error = false;
+
+        try {
+          parentsParsed = JSON.parse(resolversParents);
+          error = !isResolversParentsMap(parentsParsed);
+        } catch (e) {
+          error = true;
+        }
+
+        if (error) {
+          throw new Error(
+            'Resolvers parents has invalid format. It must be a map ' +
+            'containing type names as keys and parent types as values',
+          )
+        }
+      }
+
+      let validation: ValidationOptions | undefined;
+
+      if (operationsValidation === false) {
+        validation = false;
+      } else if (operationsValidationRules || operationsSkipValidationRules) {
+        validation = {
+          rules: operationsValidationRules
+            ? operationsValidationRules.split(',')
+            : undefined,
+          skipRules: operationsSkipValidationRules
+            ? operationsSkipValidationRules.split(',')
+            : [],
+        };
+      }
+
+      // Options passed via command line. Options which were not passed are
+      // taken from config
+      const cliOptions: Partial<CompileOptions> = {
         operationsPath: operations ? {
           glob: {
             cwd: process.cwd(),
             globs: operations.split(','),
           },
-        } : null,
+        } : undefined,
         operationsWrap,
+        operationsTyped,
+        operationsHooks,
+        operationsManifest,
+        operationsSelectionSeparate,
+        operationsValidation: validation,
         removeDescription,
-        schemaPath: {
-          glob: {
-            cwd: process.cwd(),
-            globs: schemaPath.split(','),
-          },
-        },
+        schemaPath: schemaPath ? getSchemaPath(schemaPath) : undefined,
         display,
-        outputDirectory: withCwd(outputDirectory),
+        outputDirectory: outputDirectory ? withCwd(outputDirectory) : undefined,
         schemaFileName: schemaFile,
         operationsFileName: operationsFile,
         scalars: scalarsParsed,
-      });
+        enumStyle,
+        entityStyle,
+        schemaGuards,
+        optionalInputFields,
+        resolversFileName: resolversFile,
+        resolversParents: parentsParsed,
+        mocksFileName: mocksFile,
+        outputMode,
+        outputModule,
+        outputTarget,
+      };
+      const options = Object
+        .entries(cliOptions)
+        .reduce<Record<string, any>>((acc, [key, value]) => {
+          if (value !== undefined) {
+            acc[key] = value;
+          }
+          return acc;
+        }, configPath ? loadConfig(configPath) : {}) as CompileOptions;
+
+      if (!options.schemaPath) {
+        throw new Error(
+          'Schema is not defined. Pass schema globs or define "schemaPath" ' +
+          'in config file',
+        );
+      }
+      if (!options.outputDirectory) {
+        throw new Error(
+          'Output directory is not defined. Pass --output-directory or ' +
+          'define "outputDirectory" in config file',
+        );
+      }
+
+      // In check mode, changes are only printed
+      if (checkMode) {
+        if (watchMode) {
+          throw new Error('Check mode cannot be combined with watch mode');
+        }
+        const changes = await check({display: 'default', ...options});
+
+        if (changes.length === 0) {
+          console.log(yellow('Types are up to date..'));
+        } else {
+          exitCode = 1;
+          console.log(red('Types are outdated. Files to change:'));
+          changes.forEach(({filePath, type, added, removed}) => {
+            console.log(
+              `  ${type.padEnd(7)} ${path.relative(process.cwd(), filePath)} `
+              + `(+${added} -${removed})`,
+            );
+          });
+        }
+      }
+      // In watch mode, process keeps running and errors are only reported
+      else if (watchMode) {
+        watch({display: 'default', ...options});
+        return;
+      } else {
+        await compile({display: 'default', ...options});
+      }
     } catch (e) {
       exitCode = 1;
       console.log('An error occurred while compiling types', e);
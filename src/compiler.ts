@@ -1,25 +1,66 @@
-import {buildSchema, parse} from 'graphql';
+import {
+  buildASTSchema,
+  DocumentNode,
+  extendSchema,
+  GraphQLSchema,
+  isTypeSystemExtensionNode,
+  validate,
+  validateSchema,
+} from 'graphql';
+import {validateSDL} from 'graphql/validation/validate';
 import {
   CompiledOperation, CompileOperationsOptions, CompileOptions,
-  CompileSchemaOptions,
+  CompileSchemaOptions, CompileResolversOptions, CompileMocksOptions,
+  FilesSnapshot, FragmentsMap, OutputOptions, Watcher, FilesMap, FileChange,
+  HooksClient,
 } from './types';
-import {createDirectory, getFileContentByPath, getFileName} from './fs';
+import {
+  createDirectory,
+  getChangedFiles,
+  getFileName,
+  getFilePathsByPath,
+  getFilesSnapshot,
+  getSourceName,
+  getSourcesByPath,
+  getOutputChanges,
+  removeStaleFiles,
+} from './fs';
 import {
   parseNamedType,
   generateOperation,
   generateTSTypeDefinition,
+  generateTSTypeGuard,
   getSorter,
   parseOperationDefinitionNode,
+  parseFragmentDefinitionNode,
   transpileWithFs,
+  getValidationRules,
+  formatGraphQLErrors,
+  parseSources,
+  toLocatedError,
+  toSources,
+  getSelectionSetFragmentNames,
+  removeTranspiledFiles,
+  getInputScalarNames,
+  generateScalarsImports,
+  generateResolvers,
+  generateMocks,
+  generateOperationHooks,
+  generateOperationImports,
+  getSignatureHash,
+  writeOutputFiles,
 } from './utils';
-import {yellow} from 'chalk';
+import * as path from 'path';
+import {red, yellow} from 'chalk';
 
 /**
  * Compiles schema partials to TS types
  * @param {CompileOptions} options
- * @returns {Promise<void>}
+ * @param {FilesMap} files if passed, output files are collected into this map
+ * instead of being written to disk
+ * @returns {Promise<{schema, compiledTypes}>}
  */
-export async function compile(options: CompileOptions) {
+export async function compile(options: CompileOptions, files?: FilesMap) {
   const {
     outputDirectory,
     removeDescription,
@@ -29,53 +70,315 @@ export async function compile(options: CompileOptions) {
     schemaFileName = 'schema.ts',
     operationsFileName,
     operationsWrap = false,
+    operationsTyped = false,
+    operationsHooks,
+    operationsManifest,
+    operationsSelectionSeparate = false,
+    operationsValidation = true,
     scalars = {},
+    enumStyle,
+    entityStyle,
+    schemaGuards = false,
+    optionalInputFields = false,
+    resolversFileName,
+    resolversParents,
+    mocksFileName,
+    outputMode,
+    outputModule,
+    outputTarget,
   } = options;
-  const schemaString = await getFileContentByPath(schemaPath);
+  const output: OutputOptions = {
+    mode: outputMode,
+    module: outputModule,
+    target: outputTarget,
+    files,
+  };
+  const schemaSources = await getSourcesByPath(schemaPath);
 
-  if (schemaString.length === 0) {
+  if (schemaSources.every(s => s.body.length === 0)) {
     throw new Error('No schema definition was found');
   }
 
   console.log(yellow('Starting compilation..'));
 
   // Safely create directories
-  await createDirectory(outputDirectory);
+  if (!files) {
+    await createDirectory(outputDirectory);
+  }
 
   // Firstly compile schema
   const {schema} = await compileSchema({
-    schema: schemaString,
+    schema: schemaSources,
     outputDirectory,
     fileName: schemaFileName,
     display,
     removeDescription,
     scalars,
+    enumStyle,
+    entityStyle,
+    guards: schemaGuards,
+    optionalInputFields,
+    output,
   });
 
+  // Compile resolvers if required
+  if (typeof resolversFileName === 'string') {
+    await compileResolvers({
+      schema,
+      outputDirectory,
+      schemaFileName,
+      fileName: resolversFileName,
+      parents: resolversParents,
+      entityStyle,
+      removeDescription,
+      output,
+    });
+  }
+
+  // Compile mocks if required
+  if (typeof mocksFileName === 'string') {
+    await compileMocks({
+      schema,
+      outputDirectory,
+      schemaFileName,
+      fileName: mocksFileName,
+      scalars,
+      removeDescription,
+      output,
+    });
+  }
+
   // Then, compile operations
-  const operationsString = operationsPath
-    ? await getFileContentByPath(operationsPath)
+  const operationsSources = operationsPath
+    ? await getSourcesByPath(operationsPath)
     : null;
 
-  // index.ts content
-  const schemaName = getFileName(schemaFileName);
-  let index = `export { default as schema } from './${schemaName}';\n`
-    + `export * from './${schemaName}';\n`;
+  let compiledTypes: CompiledOperation[] | null = null;
 
-  if (typeof operationsString === 'string') {
-    if (operationsString.length === 0) {
+  if (operationsSources !== null) {
+    if (operationsSources.every(s => s.body.length === 0)) {
       throw new Error('Unable to find operations');
     }
-    const {compiledTypes} = await compileOperations({
-      operations: operationsString,
+    ({compiledTypes} = await compileOperations({
+      operations: operationsSources,
       outputDirectory,
       schema,
       schemaFileName,
       removeDescription,
       fileName: operationsFileName,
       wrapWithTag: operationsWrap,
-    });
+      typed: operationsTyped,
+      hooks: operationsHooks,
+      manifestFileName: operationsManifest,
+      selectionSeparate: operationsSelectionSeparate,
+      validation: operationsValidation,
+      scalars,
+      output,
+    }));
+  }
+
+  compileIndex(
+    compiledTypes, outputDirectory, schemaFileName, operationsFileName,
+    removeDescription, output,
+  );
+
+  // In check mode, result of comparison is printed instead
+  if (!files) {
+    console.log(yellow('Compilation completed successfully..'));
+  }
+
+  return {schema, compiledTypes};
+}
 
+/**
+ * Compiles types in memory and compares them with files placed in output
+ * directory. Returns list of files which would be added, changed or deleted
+ * by compilation. Disk is not touched
+ * @param {CompileOptions} options
+ * @returns {Promise<FileChange[]>}
+ */
+export async function check(options: CompileOptions): Promise<FileChange[]> {
+  const files: FilesMap = {};
+  await compile(options, files);
+
+  return getOutputChanges(files, options.outputDirectory, options.outputMode);
+}
+
+/**
+ * Watches schema and operations files and recompiles types when they change.
+ * Schema changes lead to full compilation, while operations changes lead to
+ * compilation of affected operations only
+ * @param {CompileOptions} options
+ * @param {number} interval
+ * @returns {Watcher}
+ */
+export function watch(options: CompileOptions, interval = 300): Watcher {
+  const {
+    outputDirectory,
+    removeDescription,
+    schemaPath,
+    operationsPath,
+    schemaFileName = 'schema.ts',
+    operationsFileName,
+    operationsWrap = false,
+    operationsTyped = false,
+    operationsHooks,
+    operationsManifest,
+    operationsSelectionSeparate = false,
+    operationsValidation = true,
+    scalars = {},
+    outputMode,
+    outputModule,
+    outputTarget,
+  } = options;
+  const output: OutputOptions = {
+    mode: outputMode,
+    module: outputModule,
+    target: outputTarget,
+  };
+  let schema: GraphQLSchema | null = null;
+  let compiledTypes: CompiledOperation[] | null = null;
+  let schemaSnapshot: FilesSnapshot = {};
+  let operationsSnapshot: FilesSnapshot = {};
+  let operationsFailed = false;
+  let closed = false;
+  let timeout: NodeJS.Timeout;
+
+  // Removes files of operations which do not exist anymore
+  const removeStaleOperations = (types: CompiledOperation[] | null) => {
+    if (compiledTypes === null || typeof operationsFileName === 'string') {
+      return;
+    }
+    compiledTypes
+      .filter(t => !types || !types.some(({operationName}) => {
+        return operationName === t.operationName;
+      }))
+      .forEach(({operationName}) => {
+        removeTranspiledFiles(`${operationName}.ts`, outputDirectory);
+      });
+  };
+
+  const rebuild = async (changedOperations: string[] | null) => {
+    try {
+      let types: CompiledOperation[] | null;
+
+      // Schema is dropped until full compilation succeeds
+      if (schema === null || changedOperations === null) {
+        schema = null;
+        const result = await compile(options);
+        schema = result.schema;
+        types = result.compiledTypes;
+      } else {
+        console.log(yellow('Operations changed. Starting compilation..'));
+        const sources = await getSourcesByPath(operationsPath);
+
+        ({compiledTypes: types} = await compileOperations({
+          operations: sources,
+          outputDirectory,
+          schema,
+          schemaFileName,
+          removeDescription,
+          fileName: operationsFileName,
+          wrapWithTag: operationsWrap,
+          typed: operationsTyped,
+          hooks: operationsHooks,
+          manifestFileName: operationsManifest,
+          selectionSeparate: operationsSelectionSeparate,
+          validation: operationsValidation,
+          scalars,
+          output,
+          // After failed compilation, all operations have to be written
+          changedSources: operationsFailed
+            ? undefined
+            : changedOperations.map(getSourceName),
+        }));
+
+        // Index has to be recompiled only when operations list changed
+        const prevNames = (compiledTypes || []).map(t => t.operationName);
+        const names = types.map(t => t.operationName);
+
+        if (
+          prevNames.length !== names.length
+          || names.some(n => !prevNames.includes(n))
+        ) {
+          compileIndex(
+            types, outputDirectory, schemaFileName, operationsFileName,
+            removeDescription, output,
+          );
+        }
+        console.log(yellow('Compilation completed successfully..'));
+      }
+      removeStaleOperations(types);
+      compiledTypes = types;
+      operationsFailed = false;
+    } catch (e) {
+      operationsFailed = true;
+      console.log(red('An error occurred while compiling types'), e.message);
+    }
+  };
+
+  const check = async () => {
+    try {
+      const nextSchemaSnapshot =
+        getFilesSnapshot(await getFilePathsByPath(schemaPath));
+      const nextOperationsSnapshot = operationsPath
+        ? getFilesSnapshot(await getFilePathsByPath(operationsPath))
+        : {};
+      const schemaChanged =
+        getChangedFiles(schemaSnapshot, nextSchemaSnapshot).length > 0;
+      const changedOperations =
+        getChangedFiles(operationsSnapshot, nextOperationsSnapshot);
+
+      schemaSnapshot = nextSchemaSnapshot;
+      operationsSnapshot = nextOperationsSnapshot;
+
+      if (schemaChanged) {
+        await rebuild(null);
+      } else if (changedOperations.length > 0) {
+        await rebuild(changedOperations);
+      }
+    } catch (e) {
+      console.log(red('An error occurred while watching files'), e.message);
+    }
+
+    if (!closed) {
+      timeout = setTimeout(check, interval);
+    }
+  };
+
+  console.log(yellow('Watching for changes..'));
+  check();
+
+  return {
+    close() {
+      closed = true;
+      clearTimeout(timeout);
+    },
+  };
+}
+
+/**
+ * Compiles index file which exports schema and operations
+ * @param {CompiledOperation[] | null} compiledTypes
+ * @param {string} outputDirectory
+ * @param {string} schemaFileName
+ * @param {string} operationsFileName
+ * @param {boolean} removeDescription
+ * @param {OutputOptions} output
+ */
+function compileIndex(
+  compiledTypes: CompiledOperation[] | null,
+  outputDirectory: string,
+  schemaFileName: string,
+  operationsFileName: string | undefined,
+  removeDescription = false,
+  output: OutputOptions = {},
+) {
+  const schemaName = getFileName(schemaFileName);
+  let index = `export { default as schema } from './${schemaName}';\n`
+    + `export * from './${schemaName}';\n`;
+
+  if (compiledTypes !== null) {
     if (typeof operationsFileName === 'string') {
       const operationsName = getFileName(operationsFileName);
       index += `export * from './${operationsName}';`;
@@ -86,8 +389,36 @@ export async function compile(options: CompileOptions) {
     }
   }
 
-  transpileWithFs(index, 'index.ts', outputDirectory, removeDescription);
-  console.log(yellow('Compilation completed successfully..'));
+  // Files of modules which are not exported anymore are removed
+  if (!output.files) {
+    removeStaleFiles(outputDirectory, index, output.mode);
+  }
+  transpileWithFs(
+    index, 'index.ts', outputDirectory, removeDescription, output,
+  );
+}
+
+/**
+ * Builds schema from definitions and then applies all of the extensions like
+ * "extend type" and "extend schema", so types split across files are merged.
+ * Document is expected to be validated
+ * @param {DocumentNode} documentNode
+ * @returns {GraphQLSchema}
+ */
+function buildSchemaWithExtensions(documentNode: DocumentNode): GraphQLSchema {
+  const {definitions} = documentNode;
+  const extensions = definitions.filter(isTypeSystemExtensionNode);
+  const schema = buildASTSchema({
+    ...documentNode,
+    definitions: definitions.filter(d => !isTypeSystemExtensionNode(d)),
+  }, {assumeValidSDL: true});
+
+  return extensions.length === 0
+    ? schema
+    : extendSchema(schema, {
+      kind: 'Document',
+      definitions: extensions,
+    }, {assumeValidSDL: true});
 }
 
 /**
@@ -101,44 +432,152 @@ export async function compileSchema(options: CompileSchemaOptions) {
     fileName = 'schema.ts',
     outputDirectory,
     removeDescription = false,
-    scalars,
+    scalars = {},
+    enumStyle = 'enum',
+    entityStyle = 'namespace',
+    guards = false,
+    optionalInputFields = false,
+    output,
   } = options;
 
   // Create output directory
-  createDirectory(outputDirectory);
+  if (!output || !output.files) {
+    createDirectory(outputDirectory);
+  }
 
-  // Build GraphQL schema
-  const gqlSchema = buildSchema(schema);
+  // Build GraphQL schema. Each source is parsed separately to report errors
+  // with locations in real files
+  const sources = toSources(schema);
+  const documentNode = parseSources(sources, 'Unable to parse schema:');
+  // validateSDL is not a part of graphql public API, but it is the only way to
+  // get located SDL errors. That is why graphql version is pinned to 14.6
+  const sdlErrors = validateSDL(documentNode);
+
+  if (sdlErrors.length > 0) {
+    throw new Error(formatGraphQLErrors('Schema is invalid:', sdlErrors));
+  }
+  const gqlSchema = buildSchemaWithExtensions(documentNode);
+  const schemaErrors = validateSchema(gqlSchema);
+
+  if (schemaErrors.length > 0) {
+    throw new Error(formatGraphQLErrors('Schema is invalid:', schemaErrors));
+  }
 
   // Sort types depending on display type
-  const types = gqlSchema.toConfig().types.sort(getSorter(display));
+  const types = gqlSchema.toConfig().types.sort(getSorter(display, sources));
 
   // Get schema definition
+  const inputScalars = getInputScalarNames(scalars);
+  const scalarNames: string[] = [];
   let schemaDefinition = types.reduce<string[]>((acc, type) => {
     // We parse only types defined in schema. We can meet internal types.
     // Internal types dont have astNode
-    const parsed = parseNamedType(type);
+    const parsed = parseNamedType(type, inputScalars, optionalInputFields);
 
     if (parsed) {
-      acc.push(generateTSTypeDefinition(parsed, scalars));
+      if (parsed.__type === 'scalar') {
+        scalarNames.push(parsed.name);
+      }
+      acc.push(
+        generateTSTypeDefinition(parsed, scalars, enumStyle, entityStyle),
+      );
+
+      // Runtime type guards are placed right after types
+      const guard = guards
+        ? generateTSTypeGuard(parsed, type, gqlSchema)
+        : null;
+
+      if (guard !== null) {
+        acc.push(guard);
+      }
     }
 
     return acc;
   }, []).join('\n\n');
 
+  // Scalar types imported from modules are placed at the top
+  const scalarsImports = generateScalarsImports(scalars, scalarNames);
+
+  if (scalarsImports.length > 0) {
+    schemaDefinition = scalarsImports + '\n' + schemaDefinition;
+  }
+
   // Escape characters
-  const formattedSchema = schema.replace(/'/g, '\'');
+  const formattedSchema = sources
+    .map(s => s.body)
+    .join('')
+    .replace(/'/g, '\'');
 
   // Add schema as default export
   schemaDefinition += `\n\nconst schema: string = \`${formattedSchema}\`;\n`
     + 'export default schema;';
 
   // Write all the schema into a single file
-  transpileWithFs(schemaDefinition, fileName, outputDirectory, removeDescription);
+  transpileWithFs(
+    schemaDefinition, fileName, outputDirectory, removeDescription, output,
+  );
 
   return {schema: gqlSchema, compiled: schemaDefinition};
 }
 
+/**
+ * Compiles resolvers of schema types
+ * @param options
+ */
+export async function compileResolvers(options: CompileResolversOptions) {
+  const {
+    schema,
+    outputDirectory,
+    schemaFileName,
+    fileName = 'resolvers.ts',
+    parents = {},
+    entityStyle = 'namespace',
+    removeDescription = false,
+    output,
+  } = options;
+
+  // Create output directory
+  if (!output || !output.files) {
+    createDirectory(outputDirectory);
+  }
+
+  const definition =
+    generateResolvers(schema, schemaFileName, parents, entityStyle);
+  transpileWithFs(
+    definition, fileName, outputDirectory, removeDescription, output,
+  );
+
+  return {compiled: definition};
+}
+
+/**
+ * Compiles factories of mocked schema types
+ * @param options
+ */
+export async function compileMocks(options: CompileMocksOptions) {
+  const {
+    schema,
+    outputDirectory,
+    schemaFileName,
+    fileName = 'mocks.ts',
+    scalars = {},
+    removeDescription = false,
+    output,
+  } = options;
+
+  // Create output directory
+  if (!output || !output.files) {
+    createDirectory(outputDirectory);
+  }
+
+  const definition = generateMocks(schema, schemaFileName, scalars);
+  transpileWithFs(
+    definition, fileName, outputDirectory, removeDescription, output,
+  );
+
+  return {compiled: definition};
+}
+
 /**
  * Compiles operations
  * @param options
@@ -152,38 +591,158 @@ export async function compileOperations(options: CompileOperationsOptions) {
     schema,
     schemaFileName,
     wrapWithTag,
+    typed = false,
+    hooks,
+    manifestFileName,
+    selectionSeparate = false,
+    validation = true,
+    scalars = {},
+    output,
+    changedSources,
   } = options;
 
   // Create output directory
-  createDirectory(outputDirectory);
+  if (!output || !output.files) {
+    createDirectory(outputDirectory);
+  }
 
   const singleFile = typeof fileName === 'string';
 
-  const documentNode = parse(operations);
+  const documentNode =
+    parseSources(toSources(operations), 'Unable to parse operations:');
+
+  // Validate operations against schema. We report all of the found errors
+  const rules = getValidationRules(validation);
+
+  if (rules.length > 0) {
+    const errors = validate(schema, documentNode, rules);
+
+    if (errors.length > 0) {
+      throw new Error(
+        formatGraphQLErrors('Operations validation failed:', errors),
+      );
+    }
+  }
+
+  // Collect fragments first, operations and other fragments can refer to them
+  const fragments = documentNode
+    .definitions
+    .reduce<FragmentsMap>((acc, node) => {
+      if (node.kind === 'FragmentDefinition') {
+        acc[node.name.value] = node;
+      }
+      return acc;
+    }, {});
+
+  // States if compiled operation was affected by changed sources. Operation
+  // is affected when it or any of fragments it uses is placed in these sources
+  const affected: boolean[] = [];
+  const inputScalars = getInputScalarNames(scalars);
+  const withManifest = typeof manifestFileName === 'string';
+
+  // Persisted queries manifest. Maps signatures hashes to signatures
+  const manifest: Record<string, string> = {};
+
+  // Compiled operations without imports and types they import. They are used
+  // when operations are compiled into a single file sharing imports
+  const bodies: string[] = [];
+  const importTypes: string[] = [];
+  let withHooks = false;
+
   const compiledTypes = documentNode
     .definitions
     .reduce<CompiledOperation[]>((acc, node) => {
-      if (node.kind === 'OperationDefinition') {
-        const parsed = parseOperationDefinitionNode(node, schema, operations);
-        const ts = generateOperation(parsed, schemaFileName, wrapWithTag);
+      if (
+        node.kind !== 'OperationDefinition'
+        && node.kind !== 'FragmentDefinition'
+      ) {
+        return acc;
+      }
+
+      try {
+        const parsed = node.kind === 'OperationDefinition'
+          ? parseOperationDefinitionNode(node, schema, fragments, inputScalars)
+          : parseFragmentDefinitionNode(node, schema, fragments);
+        let hash: string | undefined;
+
+        if (withManifest && parsed.__type === 'operation') {
+          hash = getSignatureHash(parsed.signature);
+          manifest[hash] = parsed.signature;
+        }
+
+        const wrap = wrapWithTag || hooks !== undefined;
+        let body = generateOperation(
+          parsed, wrap, typed, hash, selectionSeparate,
+        );
+        let operationHooks: HooksClient | undefined;
+
+        // Hooks are placed after operation, they use its document and types
+        if (hooks !== undefined && parsed.__type === 'operation') {
+          body += '\n' + generateOperationHooks(parsed, hooks);
+          operationHooks = hooks;
+          withHooks = true;
+        }
+        const imports = generateOperationImports(
+          parsed.importTypes, schemaFileName, wrap, typed, operationHooks,
+        );
 
-        acc.push({operationName: parsed.name, ts});
+        acc.push({operationName: parsed.name, ts: imports + body});
+        bodies.push(body);
+        parsed.importTypes.forEach(t => {
+          if (!importTypes.includes(t)) {
+            importTypes.push(t);
+          }
+        });
+
+        if (changedSources) {
+          const nodes = [
+            node,
+            ...getSelectionSetFragmentNames(node.selectionSet, fragments)
+              .map(n => fragments[n]),
+          ];
+          affected.push(nodes.some(n => {
+            return changedSources.includes(n.loc.source.name);
+          }));
+        }
+      } catch (e) {
+        throw new Error(formatGraphQLErrors(
+          'Unable to compile operations:', [toLocatedError(e, node)],
+        ));
       }
       return acc;
     }, []);
 
   // If file name was passed, we have to concatenate all of the operations into
-  // a single file
+  // a single file. Imports are placed once at the top
   if (singleFile) {
-    const concatenated = compiledTypes.map(t => t.ts).join('\n\n');
-    transpileWithFs(concatenated, fileName, outputDirectory, removeDescription);
+    const concatenated = generateOperationImports(
+      importTypes, schemaFileName, wrapWithTag || hooks !== undefined, typed,
+      withHooks ? hooks : undefined,
+    ) + bodies.join('\n\n');
+    transpileWithFs(
+      concatenated, fileName, outputDirectory, removeDescription, output,
+    );
   }
-  // Otherwise create types for each operation
+  // Otherwise create types for each operation. In case, changed sources were
+  // passed, only affected operations are written
   else {
-    compiledTypes.forEach(({ts, operationName}) => {
-      transpileWithFs(ts, `${operationName}.ts`, outputDirectory, removeDescription);
+    compiledTypes.forEach(({ts, operationName}, idx) => {
+      if (changedSources && !affected[idx]) {
+        return;
+      }
+      transpileWithFs(
+        ts, `${operationName}.ts`, outputDirectory, removeDescription, output,
+      );
     });
   }
 
+  // Manifest contains all of the operations, so it is always written
+  if (withManifest) {
+    writeOutputFiles({
+      [path.resolve(outputDirectory, manifestFileName)]:
+        JSON.stringify(manifest, null, 2),
+    }, output);
+  }
+
   return {compiledTypes};
 }
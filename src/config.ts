@@ -0,0 +1,315 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {CompileOptions, PathType} from './types';
+
+/**
+ * Config file names searched in current working directory
+ * @type {string[]}
+ */
+export const configFileNames = [
+  'gql-types-generator.config.js',
+  'gql-types-generator.config.json',
+];
+
+/**
+ * Options which could be defined in config file
+ */
+export type ConfigOptions = Partial<CompileOptions>;
+
+/**
+ * Describes config option validator. Returns expected value description in
+ * case, value is invalid
+ */
+type ConfigOptionValidator = (value: unknown) => string | null;
+
+/**
+ * States if value is string or array of strings
+ * @param value
+ * @returns {boolean}
+ */
+function isStringOrStrings(value: unknown): value is string | string[] {
+  return typeof value === 'string'
+    || (Array.isArray(value) && value.every(v => typeof v === 'string'));
+}
+
+/**
+ * States if value is a plain object
+ * @param value
+ * @returns {value is Record<string, unknown>}
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * States if value is a valid scalar type
+ * @param value
+ * @returns {boolean}
+ */
+function isScalarType(value: unknown): boolean {
+  return typeof value === 'string'
+    || typeof value === 'number'
+    || (
+      isObject(value)
+      && typeof value.module === 'string'
+      && (value.export === undefined || typeof value.export === 'string')
+    );
+}
+
+/**
+ * States if value is a valid resolvers parents map
+ * @param value
+ * @returns {boolean}
+ */
+export function isResolversParentsMap(value: unknown): boolean {
+  return isObject(value) && Object.values(value).every(isScalarType);
+}
+
+/**
+ * States if value is a valid scalars map
+ * @param value
+ * @returns {boolean}
+ */
+export function isScalarsMap(value: unknown): boolean {
+  return isObject(value) && Object.values(value).every(v => {
+    return isScalarType(v)
+      || (isObject(v) && isScalarType(v.input) && isScalarType(v.output));
+  });
+}
+
+const validateString: ConfigOptionValidator = value => {
+  return typeof value === 'string' ? null : 'a string';
+};
+
+const validateBoolean: ConfigOptionValidator = value => {
+  return typeof value === 'boolean' ? null : 'a boolean';
+};
+
+const validatePathType: ConfigOptionValidator = value => {
+  const description = 'an object with "path" (string or array of strings), '
+    + '"definition" (string), "glob" ({ cwd?: string, globs: string or '
+    + 'array of strings }) or "introspectionPath" (string) property';
+
+  if (!isObject(value) || Object.keys(value).length !== 1) {
+    return description;
+  }
+  if ('path' in value) {
+    return isStringOrStrings(value.path) ? null : description;
+  }
+  if ('definition' in value) {
+    return typeof value.definition === 'string' ? null : description;
+  }
+  if ('introspectionPath' in value) {
+    return typeof value.introspectionPath === 'string' ? null : description;
+  }
+  if ('glob' in value) {
+    const {glob} = value;
+    const isValid = isObject(glob)
+      && Object.keys(glob).every(k => k === 'cwd' || k === 'globs')
+      && (glob.cwd === undefined || typeof glob.cwd === 'string')
+      && isStringOrStrings(glob.globs);
+
+    return isValid ? null : description;
+  }
+  return description;
+};
+
+/**
+ * Validators of each known config option
+ */
+const validators: Record<keyof CompileOptions, ConfigOptionValidator> = {
+  outputDirectory: validateString,
+  removeDescription: validateBoolean,
+  display: value => {
+    return value === 'as-is' || value === 'default'
+      ? null
+      : 'one of "as-is", "default"';
+  },
+  schemaPath: validatePathType,
+  operationsPath: validatePathType,
+  schemaFileName: validateString,
+  operationsFileName: validateString,
+  operationsWrap: validateBoolean,
+  operationsTyped: validateBoolean,
+  operationsManifest: validateString,
+  operationsSelectionSeparate: validateBoolean,
+  operationsHooks: value => {
+    return value === 'apollo' || value === 'urql'
+      ? null
+      : 'one of "apollo", "urql"';
+  },
+  operationsValidation: value => {
+    const description = 'a boolean or an object with "rules" and "skipRules" '
+      + 'properties which are arrays of strings';
+
+    if (typeof value === 'boolean') {
+      return null;
+    }
+    if (!isObject(value)) {
+      return description;
+    }
+    const isValid = Object.keys(value).every(k => {
+      const rules = value[k];
+
+      return (k === 'rules' || k === 'skipRules')
+        && Array.isArray(rules)
+        && rules.every(v => typeof v === 'string');
+    });
+
+    return isValid ? null : description;
+  },
+  scalars: value => {
+    return isScalarsMap(value)
+      ? null
+      : 'a map containing scalar names as keys and type definitions as values';
+  },
+  enumStyle: value => {
+    return typeof value === 'string'
+      && ['enum', 'const-enum', 'union', 'as-const'].includes(value)
+      ? null
+      : 'one of "enum", "const-enum", "union", "as-const"';
+  },
+  entityStyle: value => {
+    return value === 'namespace' || value === 'interface'
+      ? null
+      : 'one of "namespace", "interface"';
+  },
+  schemaGuards: validateBoolean,
+  optionalInputFields: validateBoolean,
+  resolversFileName: validateString,
+  resolversParents: value => {
+    return isResolversParentsMap(value)
+      ? null
+      : 'a map containing type names as keys and parent types as values';
+  },
+  mocksFileName: validateString,
+  outputMode: value => {
+    return typeof value === 'string'
+      && ['ts', 'd.ts+js', 'd.ts'].includes(value)
+      ? null
+      : 'one of "ts", "d.ts+js", "d.ts"';
+  },
+  outputModule: value => {
+    return value === 'commonjs' || value === 'esm'
+      ? null
+      : 'one of "commonjs", "esm"';
+  },
+  outputTarget: value => {
+    const targets = [
+      'es3', 'es5', 'es2015', 'es2016', 'es2017', 'es2018', 'es2019',
+      'es2020', 'esnext',
+    ];
+
+    return typeof value === 'string' && targets.includes(value)
+      ? null
+      : `one of ${targets.map(t => `"${t}"`).join(', ')}`;
+  },
+};
+
+/**
+ * Returns path to config file found in passed directory
+ * @param {string} cwd
+ * @returns {string | null}
+ */
+export function findConfigPath(cwd = process.cwd()): string | null {
+  const fileName = configFileNames.find(name => {
+    return fs.existsSync(path.resolve(cwd, name));
+  });
+
+  return fileName ? path.resolve(cwd, fileName) : null;
+}
+
+/**
+ * Validates config and returns list of found errors
+ * @param config
+ * @returns {string[]}
+ */
+export function validateConfig(config: unknown): string[] {
+  if (!isObject(config)) {
+    return ['Config must be an object'];
+  }
+  return Object.keys(config).reduce<string[]>((acc, key) => {
+    if (!(key in validators)) {
+      acc.push(`Unknown option "${key}"`);
+      return acc;
+    }
+    const expected = validators[key as keyof CompileOptions](config[key]);
+
+    if (expected !== null) {
+      acc.push(`Option "${key}" must be ${expected}`);
+    }
+    return acc;
+  }, []);
+}
+
+/**
+ * Resolves path type paths relatively to passed directory
+ * @param {PathType} pathType
+ * @param {string} dir
+ * @returns {PathType}
+ */
+function resolvePathType(pathType: PathType, dir: string): PathType {
+  if ('path' in pathType) {
+    return {
+      path: Array.isArray(pathType.path)
+        ? pathType.path.map(p => path.resolve(dir, p))
+        : path.resolve(dir, pathType.path),
+    };
+  }
+  if ('glob' in pathType) {
+    const {cwd = '', globs} = pathType.glob;
+    return {glob: {cwd: path.resolve(dir, cwd), globs}};
+  }
+  if ('introspectionPath' in pathType) {
+    return {introspectionPath: path.resolve(dir, pathType.introspectionPath)};
+  }
+  return pathType;
+}
+
+/**
+ * Loads and validates config file. Relative paths in config are resolved
+ * relatively to config file directory
+ * @param {string} configPath
+ * @returns {ConfigOptions}
+ */
+export function loadConfig(configPath: string): ConfigOptions {
+  const fullPath = path.resolve(configPath);
+  const dir = path.dirname(fullPath);
+  let config: unknown;
+
+  if (!fs.existsSync(fullPath)) {
+    throw new Error(`Unable to find config file ${configPath}`);
+  }
+
+  try {
+    if (path.extname(fullPath) === '.json') {
+      config = JSON.parse(fs.readFileSync(fullPath).toString());
+    } else {
+      const module = require(fullPath);
+      config = module && module.__esModule ? module.default : module;
+    }
+  } catch (e) {
+    throw new Error(`Unable to load config file ${configPath}: ${e.message}`);
+  }
+
+  const errors = validateConfig(config);
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Config file ${configPath} is invalid:\n  ` + errors.join('\n  '),
+    );
+  }
+  const options = config as ConfigOptions;
+  const {outputDirectory, schemaPath, operationsPath} = options;
+
+  return {
+    ...options,
+    ...(outputDirectory ? {
+      outputDirectory: path.resolve(dir, outputDirectory),
+    } : {}),
+    ...(schemaPath ? {schemaPath: resolvePathType(schemaPath, dir)} : {}),
+    ...(operationsPath ? {
+      operationsPath: resolvePathType(operationsPath, dir),
+    } : {}),
+  };
+}
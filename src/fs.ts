@@ -2,7 +2,15 @@ import glob from 'glob';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as shell from 'shelljs';
-import {PathType} from './types';
+import {buildClientSchema, printSchema, Source} from 'graphql';
+import {
+  FileChange,
+  FilesMap,
+  FilesSnapshot,
+  OutputMode,
+  PathType,
+} from './types';
+import {extractSources, isScriptFile} from './utils/extracting';
 
 /**
  * Adds current working directory to path
@@ -80,6 +88,45 @@ export async function getFileContent(...paths: string[]): Promise<string> {
   return contents.reduce((acc, c) => acc + c, '');
 }
 
+/**
+ * Returns name of source created from file. It is file path relative to
+ * current working directory
+ * @param {string} filePath
+ * @returns {string}
+ */
+export function getSourceName(filePath: string): string {
+  return path.relative(process.cwd(), filePath);
+}
+
+/**
+ * Returns sources of files. Each source is named with file path relative to
+ * current working directory, so errors could refer to real files. Script
+ * files produce source for each "gql" or "graphql" tagged template
+ * @returns {Promise<Source[]>}
+ * @param paths
+ */
+export async function getFileSources(...paths: string[]): Promise<Source[]> {
+  const sources = await Promise.all(
+    paths.map(p => {
+      return new Promise<Source[]>((res, rej) => {
+        fs.readFile(p, (err, data) => {
+          if (err) {
+            return rej(err);
+          }
+          const content = data.toString();
+          const name = getSourceName(p);
+
+          res(isScriptFile(p)
+            ? extractSources(content, name)
+            : [new Source(content, name)]);
+        })
+      })
+    }),
+  );
+
+  return sources.flat();
+}
+
 /**
  * Recursively creates directories
  * @param {string} directory
@@ -89,6 +136,30 @@ export function createDirectory(directory: string) {
   return shell.mkdir('-p', directory);
 }
 
+/**
+ * Returns schema definition source built from introspection result file
+ * @param {string} filePath
+ * @returns {Promise<Source>}
+ */
+export async function getIntrospectionSource(filePath: string): Promise<Source> {
+  const [{body}] = await getFileSources(filePath);
+  let schemaDefinition: string;
+
+  try {
+    const json = JSON.parse(body);
+
+    // Introspection result could be a full query response or its data
+    const introspection = json.data && json.data.__schema ? json.data : json;
+    schemaDefinition = printSchema(buildClientSchema(introspection));
+  } catch (e) {
+    throw new Error(
+      `Unable to build schema from introspection ${filePath}: ${e.message}`,
+    );
+  }
+
+  return new Source(schemaDefinition, getSourceName(filePath));
+}
+
 /**
  * Returns file content(s) by compilation path
  * @returns {Promise<string>}
@@ -100,7 +171,220 @@ export async function getFileContentByPath(pathType: PathType): Promise<string>
     return await getFileContent(...paths);
   } else if ('definition' in pathType) {
     return pathType.definition;
+  } else if ('introspectionPath' in pathType) {
+    return (await getIntrospectionSource(pathType.introspectionPath)).body;
   }
   const {cwd, globs} = pathType.glob;
   return await getFileContent(...await withCwdAndGlob(globs, cwd));
 }
+
+/**
+ * Returns paths to files by compilation path. Definition has no files
+ * @returns {Promise<string[]>}
+ * @param pathType
+ */
+export async function getFilePathsByPath(
+  pathType: PathType,
+): Promise<string[]> {
+  if ('path' in pathType) {
+    return Array.isArray(pathType.path) ? pathType.path : [pathType.path];
+  } else if ('definition' in pathType) {
+    return [];
+  } else if ('introspectionPath' in pathType) {
+    return [pathType.introspectionPath];
+  }
+  const {cwd, globs} = pathType.glob;
+  return await withCwdAndGlob(globs, cwd);
+}
+
+/**
+ * Returns file source(s) by compilation path
+ * @returns {Promise<Source[]>}
+ * @param pathType
+ */
+export async function getSourcesByPath(pathType: PathType): Promise<Source[]> {
+  if ('definition' in pathType) {
+    return [new Source(pathType.definition)];
+  } else if ('introspectionPath' in pathType) {
+    return [await getIntrospectionSource(pathType.introspectionPath)];
+  }
+  return await getFileSources(...await getFilePathsByPath(pathType));
+}
+
+/**
+ * Returns snapshot of files, which is a map of file paths and their
+ * modification times. Files which don't exist are skipped
+ * @param {string[]} paths
+ * @returns {FilesSnapshot}
+ */
+export function getFilesSnapshot(paths: string[]): FilesSnapshot {
+  return paths.reduce<FilesSnapshot>((acc, p) => {
+    if (fs.existsSync(p)) {
+      acc[p] = fs.statSync(p).mtimeMs;
+    }
+    return acc;
+  }, {});
+}
+
+/**
+ * Returns paths of files which were added, changed or removed between
+ * snapshots
+ * @param {FilesSnapshot} prev
+ * @param {FilesSnapshot} next
+ * @returns {string[]}
+ */
+export function getChangedFiles(
+  prev: FilesSnapshot,
+  next: FilesSnapshot,
+): string[] {
+  const changed = Object.keys(next).filter(p => prev[p] !== next[p]);
+  const removed = Object.keys(prev).filter(p => !(p in next));
+
+  return [...changed, ...removed];
+}
+
+/**
+ * Returns counts of added and removed lines between contents. Line endings
+ * are ignored
+ * @param {string} prev
+ * @param {string} next
+ * @returns {{added: number, removed: number}}
+ */
+function getLinesDiff(prev: string, next: string) {
+  const prevLines = prev.length === 0 ? [] : prev.split(/\r?\n/);
+  const nextLines = next.length === 0 ? [] : next.split(/\r?\n/);
+
+  // Count how many times each line is met in previous content
+  const counts = prevLines.reduce<Record<string, number>>((acc, l) => {
+    acc[l] = (acc[l] || 0) + 1;
+    return acc;
+  }, {});
+  const added = nextLines.reduce((acc, l) => {
+    if (counts[l] > 0) {
+      counts[l]--;
+      return acc;
+    }
+    return acc + 1;
+  }, 0);
+  const removed = Object.values(counts).reduce((acc, c) => acc + c, 0);
+
+  return {added, removed};
+}
+
+/**
+ * Returns names of modules exported from index file
+ * @param {string} index
+ * @returns {string[]}
+ */
+function getIndexModules(index: string): string[] {
+  const regexp = /from ['"]\.\/([^'"]+)['"]/g;
+  const modules: string[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = regexp.exec(index)) !== null) {
+    if (!modules.includes(match[1])) {
+      modules.push(match[1]);
+    }
+  }
+  return modules;
+}
+
+/**
+ * Returns paths of files generated by previous compilation which are not
+ * generated anymore. Only modules exported from index placed in output
+ * directory are known to be generated, so other files are never returned
+ * @param {string} outputDirectory
+ * @param {string} index content of new index
+ * @param {OutputMode} mode
+ * @returns {string[]}
+ */
+export function getStaleFiles(
+  outputDirectory: string,
+  index: string,
+  mode: OutputMode = 'd.ts+js',
+): string[] {
+  const extensions = {
+    'ts': ['.ts'],
+    'd.ts+js': ['.d.ts', '.js'],
+    'd.ts': ['.d.ts'],
+  }[mode];
+  const directory = path.resolve(outputDirectory);
+  const indexPath = path.resolve(
+    directory, mode === 'ts' ? 'index.ts' : 'index.d.ts',
+  );
+
+  if (!fs.existsSync(indexPath)) {
+    return [];
+  }
+  const modules = getIndexModules(index);
+
+  return getIndexModules(fs.readFileSync(indexPath).toString())
+    .filter(m => !modules.includes(m))
+    .reduce<string[]>((acc, m) => {
+      extensions.forEach(e => {
+        const filePath = path.resolve(directory, m + e);
+
+        if (fs.existsSync(filePath)) {
+          acc.push(filePath);
+        }
+      });
+      return acc;
+    }, []);
+}
+
+/**
+ * Removes files generated by previous compilation which are not generated
+ * anymore
+ * @param {string} outputDirectory
+ * @param {string} index content of new index
+ * @param {OutputMode} mode
+ */
+export function removeStaleFiles(
+  outputDirectory: string,
+  index: string,
+  mode: OutputMode = 'd.ts+js',
+) {
+  getStaleFiles(outputDirectory, index, mode).forEach(f => fs.unlinkSync(f));
+}
+
+/**
+ * Compares output files with files placed in output directory. Files
+ * generated by previous compilation which are not generated anymore are
+ * considered deleted
+ * @param {FilesMap} files
+ * @param {string} outputDirectory
+ * @param {OutputMode} mode
+ * @returns {FileChange[]}
+ */
+export function getOutputChanges(
+  files: FilesMap,
+  outputDirectory: string,
+  mode: OutputMode = 'd.ts+js',
+): FileChange[] {
+  const indexPath = path.resolve(
+    outputDirectory, mode === 'ts' ? 'index.ts' : 'index.d.ts',
+  );
+  const stale = getStaleFiles(outputDirectory, files[indexPath] || '', mode);
+
+  const changes = Object.keys(files).reduce<FileChange[]>((acc, filePath) => {
+    const content = files[filePath];
+
+    if (!fs.existsSync(filePath)) {
+      acc.push({filePath, type: 'added', ...getLinesDiff('', content)});
+      return acc;
+    }
+    const prev = fs.readFileSync(filePath).toString();
+
+    if (prev.replace(/\r\n/g, '\n') !== content.replace(/\r\n/g, '\n')) {
+      acc.push({filePath, type: 'changed', ...getLinesDiff(prev, content)});
+    }
+    return acc;
+  }, []);
+
+  stale.forEach(filePath => {
+    const prev = fs.readFileSync(filePath).toString();
+    changes.push({filePath, type: 'deleted', ...getLinesDiff(prev, '')});
+  });
+
+  return changes;
+}
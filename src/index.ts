@@ -1,5 +1,6 @@
 export * from './cli';
 export * from './compiler';
+export * from './config';
 export * from './fs';
 export * from './types';
 export * from './utils';
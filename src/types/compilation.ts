@@ -1,18 +1,74 @@
 /**
  * Way of sorting types
  */
-import {GraphQLSchema} from 'graphql';
+import {GraphQLSchema, Source} from 'graphql';
 
 /**
  * Compiled types sorting
  */
 export type DisplayType = 'as-is' | 'default';
 
+/**
+ * Type imported from module
+ */
+export interface ScalarImport {
+  /**
+   * Module to import type from. Relative paths are used as they are, so they
+   * must be relative to output directory
+   */
+  module: string;
+  /**
+   * Name of exported type. By default, default export is used
+   */
+  export?: string;
+}
+
+/**
+ * Scalar type. It is either a type definition or type imported from module
+ */
+export type ScalarType = string | number | ScalarImport;
+
+/**
+ * Scalar definition. Scalars which serialized and parsed values differ could
+ * have separate input and output types
+ */
+export type ScalarDefinition = ScalarType | {
+  input: ScalarType;
+  output: ScalarType;
+};
+
+/**
+ * Way of emitting enums. "enum" and "const-enum" emit TypeScript enums,
+ * "union" emits union of string literals, "as-const" emits constant object
+ * and union type of its values
+ */
+export type EnumStyle = 'enum' | 'const-enum' | 'union' | 'as-const';
+
+/**
+ * Way of emitting objects, interfaces and inputs. "namespace" emits interface
+ * and namespace containing fields types, "interface" emits interface with
+ * inline fields types and separate interfaces of fields arguments
+ */
+export type EntityStyle = 'namespace' | 'interface';
+
+/**
+ * Client library which hooks are generated for
+ */
+export type HooksClient = 'apollo' | 'urql';
+
+/**
+ * Map of GQL type names and types passed as parents to their resolvers.
+ * Types are defined the same way as scalar types
+ */
+export interface ResolversParentsMap {
+  [name: string]: ScalarType;
+}
+
 /**
  * Scalars map
  */
 export interface ScalarsMap {
-  [name: string]: string | number;
+  [name: string]: ScalarDefinition;
 }
 
 /**
@@ -35,7 +91,77 @@ export interface GlobConfig {
 export type PathType =
   | { path: string | string[] }
   | { definition: string }
-  | { glob: GlobConfig };
+  | { glob: GlobConfig }
+  | { introspectionPath: string };
+
+/**
+ * Operations validation options. Passing false disables validation, passing
+ * true runs all graphql's specified rules
+ */
+export type ValidationOptions = boolean | {
+  /**
+   * Names of validation rules to run. By default, all graphql's specified
+   * rules are run
+   */
+  rules?: string[];
+  /**
+   * Names of validation rules to skip
+   */
+  skipRules?: string[];
+};
+
+/**
+ * Output files kind. "ts" writes TypeScript sources, "d.ts+js" writes
+ * declarations and JavaScript code, "d.ts" writes declarations only
+ */
+export type OutputMode = 'ts' | 'd.ts+js' | 'd.ts';
+
+/**
+ * Module kind of emitted JavaScript code
+ */
+export type OutputModule = 'commonjs' | 'esm';
+
+/**
+ * Target of emitted JavaScript code
+ */
+export type OutputTarget =
+  | 'es3'
+  | 'es5'
+  | 'es2015'
+  | 'es2016'
+  | 'es2017'
+  | 'es2018'
+  | 'es2019'
+  | 'es2020'
+  | 'esnext';
+
+/**
+ * Map of file paths and their contents
+ */
+export type FilesMap = Record<string, string>;
+
+/**
+ * Options of output files
+ */
+export interface OutputOptions {
+  /**
+   * Output files kind. By default, "d.ts+js" is used
+   */
+  mode?: OutputMode;
+  /**
+   * Module kind of emitted code. By default, "commonjs" is used
+   */
+  module?: OutputModule;
+  /**
+   * Target of emitted code. By default, "es5" is used
+   */
+  target?: OutputTarget;
+  /**
+   * If passed, output files are collected into this map instead of being
+   * written to disk
+   */
+  files?: FilesMap;
+}
 
 /**
  * Shared compile function options
@@ -49,7 +175,53 @@ export interface CompileOptions {
   schemaFileName?: string;
   operationsFileName?: string;
   operationsWrap?: boolean;
+  operationsTyped?: boolean;
+  operationsHooks?: HooksClient;
+  operationsManifest?: string;
+  operationsSelectionSeparate?: boolean;
+  operationsValidation?: ValidationOptions;
   scalars?: ScalarsMap;
+  enumStyle?: EnumStyle;
+  entityStyle?: EntityStyle;
+  schemaGuards?: boolean;
+  optionalInputFields?: boolean;
+  resolversFileName?: string;
+  resolversParents?: ResolversParentsMap;
+  mocksFileName?: string;
+  outputMode?: OutputMode;
+  outputModule?: OutputModule;
+  outputTarget?: OutputTarget;
+}
+
+/**
+ * Map of file paths and their modification times
+ */
+export type FilesSnapshot = Record<string, number>;
+
+/**
+ * Describes change of output file found by check
+ */
+export interface FileChange {
+  filePath: string;
+  type: 'added' | 'changed' | 'deleted';
+  /**
+   * Count of added lines
+   */
+  added: number;
+  /**
+   * Count of removed lines
+   */
+  removed: number;
+}
+
+/**
+ * Represents running watcher
+ */
+export interface Watcher {
+  /**
+   * Stops watching
+   */
+  close(): void;
 }
 
 /**
@@ -64,23 +236,92 @@ export interface CompiledOperation {
  * Options to compile schema
  */
 export interface CompileSchemaOptions {
-  schema: string;
+  schema: string | Source[];
   outputDirectory: string;
   fileName?: string;
   display?: DisplayType;
   removeDescription?: boolean;
   scalars?: ScalarsMap;
+  enumStyle?: EnumStyle;
+  entityStyle?: EntityStyle;
+  /**
+   * States if runtime type guards of objects, interfaces, unions and enums
+   * should be generated
+   */
+  guards?: boolean;
+  /**
+   * States if nullable and defaulted input fields should be optional the
+   * same way as arguments and variables
+   */
+  optionalInputFields?: boolean;
+  output?: OutputOptions;
+}
+
+/**
+ * Options to compile resolvers
+ */
+export interface CompileResolversOptions {
+  schema: GraphQLSchema;
+  outputDirectory: string;
+  schemaFileName: string;
+  fileName?: string;
+  parents?: ResolversParentsMap;
+  entityStyle?: EntityStyle;
+  removeDescription?: boolean;
+  output?: OutputOptions;
+}
+
+/**
+ * Options to compile mocks
+ */
+export interface CompileMocksOptions {
+  schema: GraphQLSchema;
+  outputDirectory: string;
+  schemaFileName: string;
+  fileName?: string;
+  scalars?: ScalarsMap;
+  removeDescription?: boolean;
+  output?: OutputOptions;
 }
 
 /**
  * Options to compile operations
  */
 export interface CompileOperationsOptions {
-  operations: string;
+  operations: string | Source[];
   outputDirectory: string;
   schema: GraphQLSchema;
   schemaFileName: string;
   wrapWithTag?: boolean;
+  /**
+   * States if operations should be exported as TypedDocumentNode. Implies
+   * wrapping with tag
+   */
+  typed?: boolean;
+  /**
+   * Client library which React hooks are generated for. Implies wrapping
+   * with tag
+   */
+  hooks?: HooksClient;
+  /**
+   * Persisted queries manifest file name. If passed, manifest mapping
+   * operations signatures hashes to signatures is written and each operation
+   * exports its hash
+   */
+  manifestFileName?: string;
+  /**
+   * States if each selection set should be compiled as a separate type named
+   * by path to it instead of nested namespaces
+   */
+  selectionSeparate?: boolean;
   removeDescription?: boolean;
   fileName?: string;
+  validation?: ValidationOptions;
+  scalars?: ScalarsMap;
+  output?: OutputOptions;
+  /**
+   * Names of changed sources. If passed, only operations and fragments
+   * affected by changes in these sources are written
+   */
+  changedSources?: string[];
 }
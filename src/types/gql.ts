@@ -1,4 +1,5 @@
 import {
+  FragmentDefinitionNode,
   GraphQLEnumType,
   GraphQLInterfaceType,
   GraphQLObjectType,
@@ -10,3 +11,8 @@ export type GraphQLNonWrappedType = GraphQLScalarType
   | GraphQLInterfaceType
   | GraphQLUnionType
   | GraphQLEnumType
+
+/**
+ * Map of fragment definitions, where key is fragment name
+ */
+export type FragmentsMap = Record<string, FragmentDefinitionNode>;
@@ -4,11 +4,25 @@ import {
   WithImportTypes,
   Named, DefinitionWithImportTypes,
 } from './shared';
-import {GraphQLOutputType} from 'graphql';
+import {
+  GraphQLInputType,
+  GraphQLOutputType,
+  OperationTypeNode,
+} from 'graphql';
 
 // shared
 export interface PreparedObjectField extends MaybeDescription, Named {
   type: CompiledTypeName;
+  optional?: boolean;
+  /**
+   * Deprecation reason. Deprecated fields are marked even when descriptions
+   * are not included
+   */
+  deprecationReason?: string;
+  /**
+   * GraphQL type of field. Presented in fields of parsed schema entities
+   */
+  fieldType?: GraphQLOutputType | GraphQLInputType;
 }
 
 export type PreparedObject<ImportRequired extends boolean = false> =
@@ -19,6 +33,10 @@ export type PreparedObject<ImportRequired extends boolean = false> =
   fields: PreparedObjectField[];
 }
 
+export interface PreparedUnion extends MaybeDescription, Named {
+  types: CompiledTypeName[];
+}
+
 // GQL input, type, interface, fragment
 export interface EntityNamespaceField extends MaybeDescription, Named {
   type: CompiledTypeName;
@@ -60,22 +78,40 @@ export interface PreparedOperationNamespaceFieldType extends PreparedObject {
   outputType: GraphQLOutputType;
 }
 
+export interface PreparedOperationNamespaceFieldUnionType extends PreparedUnion {
+  outputType: GraphQLOutputType;
+}
+
 export interface OperationNamespaceField extends MaybeDescription, Named {
-  type: DefinitionWithImportTypes | PreparedOperationNamespaceFieldType;
+  type:
+    | DefinitionWithImportTypes
+    | PreparedOperationNamespaceFieldType
+    | PreparedOperationNamespaceFieldUnionType;
   fields?: OperationNamespaceField[];
 }
 
 export interface OperationRootNamespace extends Named, WithImportTypes<true> {
   fields: OperationNamespaceField[];
-  args: PreparedObject;
+  args: PreparedObject | null;
 }
 
 export interface Operation extends WithImportTypes<true> {
   __type: 'operation';
+  operation: OperationTypeNode;
+  originalName: string;
   selection: PreparedObject;
   namespace?: OperationRootNamespace;
   name: string;
   signature: string;
 }
 
+// GQL fragment
+export interface Fragment extends WithImportTypes<true> {
+  __type: 'fragment';
+  selection: PreparedObject | PreparedUnion;
+  namespace: OperationRootNamespace;
+  name: string;
+  signature: string;
+}
+
 export type NamedGQLType = Scalar | Enum | Entity | Union;
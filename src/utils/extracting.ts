@@ -0,0 +1,93 @@
+import * as ts from 'typescript';
+import * as path from 'path';
+import {Source} from 'graphql';
+
+/**
+ * Names of tags which templates are considered as GraphQL documents
+ * @type {string[]}
+ */
+const tagNames = ['gql', 'graphql'];
+
+/**
+ * Extensions of script files, which could contain tagged templates
+ * @type {string[]}
+ */
+const scriptExtensions = ['.ts', '.tsx', '.js', '.jsx'];
+
+/**
+ * States if file is a script file
+ * @param {string} filePath
+ * @returns {boolean}
+ */
+export function isScriptFile(filePath: string): boolean {
+  return scriptExtensions.includes(path.extname(filePath));
+}
+
+/**
+ * Returns template body as it is placed in file. Substitutions are replaced
+ * with spaces to keep locations of the rest of text
+ * @param {ts.TemplateLiteral} template
+ * @param {string} content
+ * @returns {string}
+ */
+function getTemplateBody(template: ts.TemplateLiteral, content: string): string {
+  const start = template.getStart() + 1;
+  const body = content.slice(start, template.getEnd() - 1);
+
+  if (ts.isNoSubstitutionTemplateLiteral(template)) {
+    return body;
+  }
+  // Each substitution starts with "${" placed at the end of previous literal
+  // and ends with "}" placed at the start of next one
+  return template.templateSpans.reduce((acc, span, idx) => {
+    const prev = idx === 0
+      ? template.head
+      : template.templateSpans[idx - 1].literal;
+    const from = prev.getEnd() - 2 - start;
+    const to = span.literal.getStart() + 1 - start;
+
+    return acc.slice(0, from)
+      + acc.slice(from, to).replace(/[^\n]/g, ' ')
+      + acc.slice(to);
+  }, body);
+}
+
+/**
+ * Extracts sources from "gql" and "graphql" tagged templates of script file.
+ * Sources have offsets of templates in file, so errors could refer to real
+ * locations
+ * @param {string} content
+ * @param {string} sourceName
+ * @returns {Source[]}
+ */
+export function extractSources(content: string, sourceName: string): Source[] {
+  const scriptKind = path.extname(sourceName).endsWith('x')
+    ? ts.ScriptKind.TSX
+    : ts.ScriptKind.TS;
+  const sourceFile = ts.createSourceFile(
+    sourceName, content, ts.ScriptTarget.Latest, true, scriptKind,
+  );
+  const sources: Source[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isTaggedTemplateExpression(node)
+      && ts.isIdentifier(node.tag)
+      && tagNames.includes(node.tag.text)
+    ) {
+      const {template} = node;
+      const {line, character} = sourceFile
+        .getLineAndCharacterOfPosition(template.getStart() + 1);
+
+      sources.push(new Source(
+        getTemplateBody(template, content),
+        sourceName,
+        {line: line + 1, column: character + 1},
+      ));
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return sources;
+}
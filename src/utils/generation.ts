@@ -1,5 +1,8 @@
 import {
   ScalarsMap,
+  ScalarType,
+  EnumStyle,
+  EntityStyle,
   Union,
   Enum,
   Entity,
@@ -11,23 +14,56 @@ import {
   NamedGQLType,
   Scalar,
   PreparedOperationNamespaceFieldType,
+  PreparedOperationNamespaceFieldUnionType,
+  PreparedUnion,
+  Fragment,
+  ResolversParentsMap,
+  HooksClient,
 } from '../types';
 import {
   formatImportTypes,
   formatDescription,
+  getDeprecationTag,
   toCamelCase,
   withSpaces, getOutputTypeDefinitionWithWrappers,
+  isGQLScalarType,
+  transpileGQLTypeName,
+  makeNullable,
+  getCompiledOperationNamespaceName,
+  getInputScalarNames,
+  getArgumentsInterfaceName,
 } from './misc';
+import {parseNamedType} from './parsing';
+import {
+  GraphQLNamedType,
+  GraphQLOutputType,
+  GraphQLSchema,
+  GraphQLType,
+  isAbstractType,
+  isEnumType,
+  isInputObjectType,
+  isInterfaceType,
+  isListType,
+  isNonNullType,
+  isObjectType,
+  isScalarType,
+  isUnionType,
+  OperationTypeNode,
+} from 'graphql';
 
 /**
  * Universal TS definition generator
  * @param type
  * @param scalars
+ * @param enumStyle
+ * @param entityStyle
  * @returns {string}
  */
 export function generateTSTypeDefinition(
   type: NamedGQLType,
   scalars: ScalarsMap,
+  enumStyle: EnumStyle = 'enum',
+  entityStyle: EntityStyle = 'namespace',
 ): string {
   if (type.__type === 'union') {
     return generateUnion(type);
@@ -36,9 +72,9 @@ export function generateTSTypeDefinition(
     return generateScalar(type, scalars);
   }
   if (type.__type === 'enum') {
-    return generateEnum(type);
+    return generateEnum(type, enumStyle);
   }
-  return generateEntity(type);
+  return generateEntity(type, entityStyle);
 }
 
 /**
@@ -51,9 +87,12 @@ export function generatePreparedObjectField(
   field: PreparedObjectField,
   includeDescription = false,
 ): string {
-  const {name, description, type} = field;
-  return (includeDescription ? formatDescription(description) : '')
-    + `${name}: ${type};\n`;
+  const {name, description, type, optional, deprecationReason} = field;
+  const doc = includeDescription
+    ? formatDescription(description)
+    : formatDescription(getDeprecationTag(deprecationReason));
+
+  return doc + `${name}${optional ? '?' : ''}: ${type};\n`;
 }
 
 /**
@@ -80,6 +119,24 @@ export function generatePreparedObject(
     + '}\n';
 }
 
+/**
+ * Converts prepared union to string
+ * @param {PreparedUnion} union
+ * @param formatName
+ * @returns {string}
+ */
+export function generatePreparedUnion(
+  union: PreparedUnion,
+  formatName: boolean,
+): string {
+  const {name, description, types} = union;
+  const formattedName = formatName ? toCamelCase(name) : name;
+  const definition = types.length === 0 ? 'never' : types.join(' | ');
+
+  return formatDescription(description)
+    + `export type ${formattedName} = ${definition};\n`;
+}
+
 /**
  * Converts PreparedOperationNamespaceFieldType to string
  * @param {PreparedOperationNamespaceFieldType} type
@@ -101,14 +158,45 @@ export function generatePreparedNamespaceField(
     + `export type ${name} = ${definition};\n`
 }
 
+/**
+ * Converts PreparedOperationNamespaceFieldUnionType to string
+ * @param {PreparedOperationNamespaceFieldUnionType} type
+ * @returns {string}
+ */
+export function generatePreparedNamespaceUnionField(
+  type: PreparedOperationNamespaceFieldUnionType,
+): string {
+  const {name, description, types, outputType} = type;
+  let definition = 'never';
+
+  if (types.length === 1) {
+    definition = types[0];
+  } else if (types.length > 1) {
+    definition = `(${types.join(' | ')})`;
+  }
+
+  definition = getOutputTypeDefinitionWithWrappers(outputType, definition);
+
+  return formatDescription(description)
+    + `export type ${name} = ${definition};\n`;
+}
+
 /**
  * GQL entity => TS interface + namespace?
  * @param {Entity} entity
+ * @param {EntityStyle} style
  * @returns {string}
  */
-export function generateEntity(entity: Entity): string {
+export function generateEntity(
+  entity: Entity,
+  style: EntityStyle = 'namespace',
+): string {
   const {namespace, fields} = entity;
 
+  if (style === 'interface') {
+    return generateEntityInterface(entity);
+  }
+
   const {name, description, fields: namespaceFields} = namespace;
   const nspDefinition = namespaceFields.reduce<string>((acc, f, idx) => {
     if (idx !== 0) {
@@ -135,12 +223,73 @@ export function generateEntity(entity: Entity): string {
 }
 
 /**
- * GQL enum => TS enum
+ * GQL entity => TS interface with inline fields types. Fields arguments are
+ * placed into separate interfaces
+ * @param {Entity} entity
+ * @returns {string}
+ */
+function generateEntityInterface(entity: Entity): string {
+  const {namespace, fields} = entity;
+  const {name, description} = namespace;
+
+  const {definition, args} = fields.fields.reduce<{
+    definition: string;
+    args: string[];
+  }>((acc, f, idx) => {
+    const nspField = namespace.fields[idx];
+
+    acc.definition += formatDescription(nspField.description)
+      + `${f.name}${f.optional ? '?' : ''}: ${nspField.type};\n`;
+
+    if (nspField.args !== null && nspField.args.fields.length > 0) {
+      acc.args.push(generatePreparedObject({
+        ...nspField.args,
+        name: getArgumentsInterfaceName(name, f.name),
+      }, false));
+    }
+    return acc;
+  }, {definition: '', args: []});
+
+  return formatDescription(description)
+    + `export interface ${name} {\n`
+    + withSpaces(definition, 2)
+    + '}\n'
+    + args.map(a => '\n' + a).join('');
+}
+
+/**
+ * GQL enum => TS enum, union or constant object depending on style
  * @returns {string}
  * @param type
+ * @param style
  */
-export function generateEnum(type: Enum): string {
+export function generateEnum(type: Enum, style: EnumStyle = 'enum'): string {
   const {name, description, values} = type;
+
+  if (style === 'union') {
+    const definition = values.reduce<string>((acc, v) => {
+      return acc + formatDescription(v.description) + `| '${v.name}'\n`;
+    }, '');
+
+    return formatDescription(description)
+      + `export type ${name} =\n`
+      + withSpaces(definition, 2).replace(/\n$/, ';\n');
+  }
+
+  if (style === 'as-const') {
+    const definition = values.reduce<string>((acc, v) => {
+      return acc
+        + formatDescription(v.description)
+        + `${v.name}: '${v.name}',\n`;
+    }, '');
+
+    return formatDescription(description)
+      + `export const ${name} = {\n`
+      + withSpaces(definition, 2)
+      + '} as const;\n'
+      + `export type ${name} = typeof ${name}[keyof typeof ${name}];\n`;
+  }
+
   const definition = values.reduce<string>((acc, v) => {
     const {description, name} = v;
 
@@ -150,13 +299,96 @@ export function generateEnum(type: Enum): string {
   }, '');
 
   return formatDescription(description)
-    + `export enum ${name} {\n`
+    + `export ${style === 'const-enum' ? 'const enum' : 'enum'} ${name} {\n`
     + withSpaces(definition, 2)
     + '}\n';
 }
 
 /**
- * GQL scalar => TS type
+ * Returns name of local alias of imported scalar type
+ * @param {string} name
+ * @param {boolean} input
+ * @returns {string}
+ */
+function getScalarImportAlias(name: string, input: boolean): string {
+  return input ? `${name}InputScalar` : `${name}Scalar`;
+}
+
+/**
+ * Converts scalar type to its definition
+ * @param {string} name
+ * @param {ScalarType} type
+ * @param {boolean} input
+ * @returns {string}
+ */
+function getScalarTypeDefinition(
+  name: string,
+  type: ScalarType,
+  input: boolean,
+): string {
+  if (typeof type === 'string' || typeof type === 'number') {
+    return type.toString();
+  }
+  if (typeof type !== 'object' || typeof type.module !== 'string') {
+    throw new Error(
+      `Unable to use passed scalar ${name} due to its type is not number, `
+      + 'string or an object with "module" and optional "export" properties',
+    );
+  }
+  return getScalarImportAlias(name, input);
+}
+
+/**
+ * Generates import of type imported from module. Returns empty string for
+ * types which are not imported
+ * @param {ScalarType} type
+ * @param {string} alias
+ * @returns {string}
+ */
+export function generateTypeImport(type: ScalarType, alias: string): string {
+  if (typeof type !== 'object') {
+    return '';
+  }
+  const {module, export: exportName = 'default'} = type;
+
+  return exportName === 'default'
+    ? `import type ${alias} from '${module}';\n`
+    : `import type { ${exportName} as ${alias} } from '${module}';\n`;
+}
+
+/**
+ * Generates imports of scalar types imported from modules
+ * @param {ScalarsMap} scalars
+ * @param {string[]} names names of scalars, defined in schema
+ * @returns {string}
+ */
+export function generateScalarsImports(
+  scalars: ScalarsMap,
+  names: string[],
+): string {
+  return names.reduce<string>((acc, name) => {
+    const definition = scalars[name];
+
+    if (definition === undefined) {
+      return acc;
+    }
+    const types: [ScalarType, string][] =
+      typeof definition === 'object' && 'input' in definition
+        ? [
+          [definition.output, getScalarImportAlias(name, false)],
+          [definition.input, getScalarImportAlias(name, true)],
+        ]
+        : [[definition, getScalarImportAlias(name, false)]];
+
+    return types.reduce((typesAcc, [type, alias]) => {
+      return typesAcc + generateTypeImport(type, alias);
+    }, acc);
+  }, '');
+}
+
+/**
+ * GQL scalar => TS type. Scalars with separate input types have namespace
+ * containing "Input" type
  * @param type
  * @param scalars
  * @returns {string}
@@ -166,20 +398,26 @@ export function generateScalar(
   scalars: ScalarsMap,
 ): string {
   const {description, name} = type;
-  let definition: string | number = 'any';
 
-  if (name in scalars) {
-    if (typeof scalars[name] !== 'string' && typeof scalars[name] !== 'number') {
-      throw new Error(
-        `Unable to use passed scalar ${name} due to its type is not`
-        + 'number or string',
-      );
-    }
-    definition = scalars[name];
+  if (!(name in scalars)) {
+    return formatDescription(description) + `export type ${name} = any;\n`;
+  }
+  const definition = scalars[name];
+
+  if (typeof definition === 'object' && 'input' in definition) {
+    const output = getScalarTypeDefinition(name, definition.output, false);
+    const input = getScalarTypeDefinition(name, definition.input, true);
+
+    return formatDescription(description)
+      + `export type ${name} = ${output};\n`
+      + `export namespace ${name} {\n`
+      + withSpaces(`export type Input = ${input};\n`, 2)
+      + '}\n';
   }
 
   return formatDescription(description)
-    + `export type ${name} = ${definition};\n`;
+    + `export type ${name} = `
+    + `${getScalarTypeDefinition(name, definition, false)};\n`;
 }
 
 /**
@@ -194,6 +432,78 @@ export function generateUnion(type: Union): string {
     + `export type ${name} = ${types.join(' | ')};\n`;
 }
 
+/**
+ * Returns type names which objects of passed GQL type could have in
+ * "__typename" field
+ * @param {GraphQLNamedType} type
+ * @param {GraphQLSchema} schema
+ * @returns {string[]}
+ */
+function getTypenames(
+  type: GraphQLNamedType,
+  schema: GraphQLSchema,
+): string[] {
+  return isAbstractType(type)
+    ? schema.getPossibleTypes(type).map(t => t.name)
+    : [type.name];
+}
+
+/**
+ * Generates type guard which checks if value is one of passed values. When
+ * typename is true, "__typename" field of object is checked instead of value
+ * @param {string} name
+ * @param {string[]} values
+ * @param {boolean} typename
+ * @returns {string}
+ */
+function generateGuard(
+  name: string,
+  values: string[],
+  typename: boolean,
+): string {
+  const checked = typename ? 'value.__typename' : 'value';
+  const list = values.reduce<string>((acc, v) => acc + `'${v}',\n`, '');
+  const condition = values.length === 1
+    ? `${checked} === '${values[0]}'`
+    : `[\n${withSpaces(list, 2)}].indexOf(${checked}) !== -1`;
+  const definition = typename
+    ? 'value !== null\n'
+    + '  && typeof value === \'object\'\n'
+    + `  && ${condition.replace(/\n/g, '\n  ')}`
+    : condition;
+
+  return formatDescription(`States if value is ${name}`)
+    + `export function is${name}(value: any): value is ${name} {\n`
+    + withSpaces(`return ${definition};\n`, 2)
+    + '}\n';
+}
+
+/**
+ * Universal runtime type guard generator. Objects, interfaces and unions are
+ * checked by "__typename" field, enums by values. Returns null for types
+ * which could not be checked
+ * @param {NamedGQLType} parsed
+ * @param {GraphQLNamedType} type
+ * @param {GraphQLSchema} schema
+ * @returns {string | null}
+ */
+export function generateTSTypeGuard(
+  parsed: NamedGQLType,
+  type: GraphQLNamedType,
+  schema: GraphQLSchema,
+): string | null {
+  if (parsed.__type === 'enum') {
+    return generateGuard(parsed.name, parsed.values.map(v => v.name), false);
+  }
+  if (parsed.__type === 'union') {
+    return generateGuard(parsed.name, getTypenames(type, schema), true);
+  }
+  if (parsed.__type === 'entity' && !isInputObjectType(type)) {
+    return generateGuard(parsed.fields.name, getTypenames(type, schema), true);
+  }
+  return null;
+}
+
 /**
  * Generates operation namespace field
  * @param {OperationNamespaceField} field
@@ -206,10 +516,11 @@ export function generateOperationNamespaceField(
   let result = formatDescription(description);
 
   if ('definition' in type) {
-    result += formatDescription(description)
-      + `export type ${name} = ${type.definition};\n`;
+    result += `export type ${name} = ${type.definition};\n`;
   } else {
-    result += generatePreparedNamespaceField(type);
+    result += 'types' in type
+      ? generatePreparedNamespaceUnionField(type)
+      : generatePreparedNamespaceField(type);
 
     if (fields && fields.length > 0) {
       const content = fields.reduce<string>((acc, f) => {
@@ -234,7 +545,7 @@ export function generateOperationRootNamespace(
 ): string {
   const {name, args, fields} = nsp;
   // Namespace
-  let content = generatePreparedObject(args, false);
+  let content = args === null ? '' : generatePreparedObject(args, false);
 
   fields.forEach(f => {
     content += generateOperationNamespaceField(f);
@@ -246,37 +557,800 @@ export function generateOperationRootNamespace(
 }
 
 /**
- * GQL operation => TS interfaces
+ * Returns definition of operation namespace field type, where selections are
+ * replaced with names of separate types. Separate types are collected into
+ * definitions
+ * @param {OperationNamespaceField} field
+ * @param {string} prefix
+ * @param {string[]} definitions
+ * @returns {string}
+ */
+function getSeparateFieldDefinition(
+  field: OperationNamespaceField,
+  prefix: string,
+  definitions: string[],
+): string {
+  const {type, fields = []} = field;
+
+  if ('definition' in type) {
+    return type.definition;
+  }
+  const name = `${prefix}_${field.name}`;
+  collectSeparateSelection(name, type, fields, definitions);
+
+  return getOutputTypeDefinitionWithWrappers(type.outputType, name);
+}
+
+/**
+ * Collects separate types of selection set. Object selection becomes
+ * interface, while polymorphic selection becomes union of its variants
+ * interfaces. Types of nested selections are named by path to them
+ * @param {string} name
+ * @param {PreparedObject | PreparedUnion} selection
+ * @param {OperationNamespaceField[]} fields namespace fields of selection
+ * @param {string[]} definitions
+ */
+function collectSeparateSelection(
+  name: string,
+  selection: PreparedObject | PreparedUnion,
+  fields: OperationNamespaceField[],
+  definitions: string[],
+) {
+  // Selection type is placed before types of its nested selections
+  const idx = definitions.push('') - 1;
+
+  if ('types' in selection) {
+    const variants = fields.map(v => {
+      const variantName = `${name}_${v.name}`;
+      collectSeparateSelection(
+        variantName, v.type as PreparedObject, v.fields || [], definitions,
+      );
+      return variantName;
+    });
+    definitions[idx] = `export type ${name} = `
+      + `${variants.length === 0 ? 'never' : variants.join(' | ')};\n`;
+    return;
+  }
+
+  const definition = selection.fields.reduce<string>((acc, f) => {
+    const field = fields.find(nf => nf.name === f.name);
+    const type = getSeparateFieldDefinition(field, name, definitions);
+
+    return acc
+      + formatDescription(field.description)
+      + `${f.name}${f.optional ? '?' : ''}: ${type};\n`;
+  }, '');
+
+  definitions[idx] = `export interface ${name} {\n`
+    + withSpaces(definition, 2)
+    + '}\n';
+}
+
+/**
+ * Generates operation or fragment selection types, where each selection set
+ * is a separate type named by path to it. Arguments are placed into
+ * namespace with the same name as selection
+ * @param {Operation | Fragment} operation
+ * @returns {string}
+ */
+export function generateSeparateSelection(
+  operation: Operation | Fragment,
+): string {
+  const {selection, namespace} = operation;
+  const definitions: string[] = [];
+  const args = namespace.args === null
+    ? ''
+    : `export namespace ${namespace.name} {\n`
+    + withSpaces(generatePreparedObject(namespace.args, false), 2)
+    + '}\n\n';
+
+  collectSeparateSelection(
+    namespace.name, selection, namespace.fields, definitions,
+  );
+
+  return args + definitions.join('\n');
+}
+
+/**
+ * GQL operation or fragment => TS interfaces. Imports are generated
+ * separately with generateOperationImports
  * @returns {string}
  * @param operation
- * @param schemaFileName
  * @param wrapWithTag
+ * @param typed states if operation should be exported as TypedDocumentNode.
+ * Implies wrapping with tag
+ * @param hash hash of operation signature. If passed, it is exported as
+ * operation name + "Hash"
+ * @param selectionSeparate states if each selection set should be a separate
+ * type instead of nested namespaces
  */
 export function generateOperation(
-  operation: Operation,
-  schemaFileName: string,
+  operation: Operation | Fragment,
   wrapWithTag: boolean,
+  typed = false,
+  hash?: string,
+  selectionSeparate = false,
 ): string {
-  const {selection, namespace, name, signature, importTypes} = operation;
-  const operationConst = wrapWithTag
-    ? `const ${name}: DocumentNode = gql(\`${signature}\`);\n`
+  const {selection, namespace, name, signature} = operation;
+  let documentType = 'DocumentNode';
+
+  if (typed) {
+    const args = namespace.args === null ? '{}' : `${namespace.name}.Arguments`;
+    documentType = `TypedDocumentNode<${toCamelCase(selection.name)}, ${args}>`;
+  }
+
+  const operationConst = wrapWithTag || typed
+    ? `const ${name}: ${documentType} = gql(\`${signature}\`);\n`
     : `const ${name}: string = \`${signature}\`;\n`;
 
-  // If graphql-tag required, import it
-  let gqlTagImport = '';
+  // Namespace and operation result interface
+  return (selectionSeparate
+      ? generateSeparateSelection(operation)
+      : generateOperationRootNamespace(namespace)
+      + ('types' in selection
+        ? generatePreparedUnion(selection, true)
+        : generatePreparedObject(selection, true)))
+    // Operation export
+    + `export ${operationConst}`
+    // Persisted query hash
+    + (hash ? `export const ${name}Hash = '${hash}';\n` : '');
+}
+
+/**
+ * Generates imports required by compiled operations. Operations compiled into
+ * a single file share these imports
+ * @param {string[]} importTypes
+ * @param {string} schemaFileName
+ * @param {boolean} wrapWithTag
+ * @param {boolean} typed
+ * @param {HooksClient} hooks client library which hooks use
+ * @returns {string}
+ */
+export function generateOperationImports(
+  importTypes: string[],
+  schemaFileName: string,
+  wrapWithTag: boolean,
+  typed = false,
+  hooks?: HooksClient,
+): string {
+  let imports = '';
+
+  if (hooks === 'apollo') {
+    imports += 'import * as Apollo from \'@apollo/client\';\n';
+  } else if (hooks === 'urql') {
+    imports += 'import * as Urql from \'urql\';\n';
+  }
 
-  if (wrapWithTag) {
-    gqlTagImport = 'import gql from \'graphql-tag\';\n'
+  // If graphql-tag required, import it
+  if (typed) {
+    imports += 'import gql from \'graphql-tag\';\n'
+      + 'import { TypedDocumentNode } from '
+      + '\'@graphql-typed-document-node/core\';\n\n';
+  } else if (wrapWithTag) {
+    imports += 'import gql from \'graphql-tag\';\n'
       + 'import { DocumentNode } from \'graphql\';\n\n';
   }
 
-  return gqlTagImport
-    // Required types import
+  // Required types import
+  return imports + formatImportTypes(importTypes, schemaFileName);
+}
+
+/**
+ * Generates React hooks of operation for passed client library. Queries get
+ * lazy variant in case, library supports it
+ * @param {Operation} operation
+ * @param {HooksClient} client
+ * @returns {string}
+ */
+export function generateOperationHooks(
+  operation: Operation,
+  client: HooksClient,
+): string {
+  const {
+    operation: operationType, originalName, name, namespace, selection,
+  } = operation;
+  const result = toCamelCase(selection.name);
+  const args = namespace.args === null ? '{}' : `${namespace.name}.Arguments`;
+  const generics = `${result}, ${args}`;
+  const hookName = `use${namespace.name}`;
+
+  if (client === 'apollo') {
+    const hooks: Record<OperationTypeNode, [string, string][]> = {
+      query: [
+        [hookName, 'Query'],
+        [`use${getCompiledOperationNamespaceName(originalName, 'lazyQuery')}`,
+          'LazyQuery'],
+      ],
+      mutation: [[hookName, 'Mutation']],
+      subscription: [[hookName, 'Subscription']],
+    };
+
+    return hooks[operationType].map(([hook, kind]) => {
+      return `export function ${hook}(\n`
+        + `  options?: Apollo.${kind}HookOptions<${generics}>,\n`
+        + ') {\n'
+        + `  return Apollo.use${kind}<${generics}>(${name}, options);\n`
+        + '}\n';
+    }).join('\n');
+  }
+
+  let hook: string;
+
+  if (operationType === 'query') {
+    hook = `export function ${hookName}(\n`
+      + `  options?: Omit<Urql.UseQueryArgs<${args}>, 'query'>,\n`
+      + ') {\n'
+      + `  return Urql.useQuery<${generics}>({query: ${name}, ...options});\n`
+      + '}\n';
+  } else if (operationType === 'mutation') {
+    hook = `export function ${hookName}() {\n`
+      + `  return Urql.useMutation<${generics}>(${name});\n`
+      + '}\n';
+  } else {
+    hook = `export function ${hookName}<TData = ${result}>(\n`
+      + `  options?: Omit<Urql.UseSubscriptionArgs<${args}>, 'query'>,\n`
+      + `  handler?: Urql.SubscriptionHandler<${result}, TData>,\n`
+      + ') {\n'
+      + `  return Urql.useSubscription<${result}, TData, ${args}>(\n`
+      + `    {query: ${name}, ...options},\n`
+      + '    handler,\n'
+      + '  );\n'
+      + '}\n';
+  }
+
+  return hook;
+}
+
+/**
+ * Helper types placed at the top of resolvers file
+ * @type {string}
+ */
+const resolversHelperTypes = `export type ResolverResult<T> = T | Promise<T>;
+
+export type Resolver<TResult, TParent, TArgs, TContext> = (
+  parent: TParent,
+  args: TArgs,
+  context: TContext,
+  info: GraphQLResolveInfo,
+) => ResolverResult<TResult>;
+
+export interface SubscriptionResolver<TResult, TParent, TArgs, TContext> {
+  subscribe: Resolver<AsyncIterator<any>, TParent, TArgs, TContext>;
+  resolve?: Resolver<TResult, any, TArgs, TContext>;
+}
+
+export type TypeResolver<TTypes, TParent, TContext> = (
+  parent: TParent,
+  context: TContext,
+  info: GraphQLResolveInfo,
+) => ResolverResult<TTypes>;
+`;
+
+/**
+ * Returns name of local alias of imported resolvers parent type
+ * @param {string} name
+ * @returns {string}
+ */
+function getParentImportAlias(name: string): string {
+  return `${name}Parent`;
+}
+
+/**
+ * Returns type which is passed as parent to resolvers of GQL type. By
+ * default, it is a type compiled from schema. Abstract types parents are
+ * unions of their possible types parents
+ * @param {GraphQLNamedType} type
+ * @param {GraphQLSchema} schema
+ * @param {ResolversParentsMap} parents
+ * @param {string[]} importTypes
+ * @returns {string}
+ */
+function getResolverParentDefinition(
+  type: GraphQLNamedType,
+  schema: GraphQLSchema,
+  parents: ResolversParentsMap,
+  importTypes: string[],
+): string {
+  const {name} = type;
+
+  if (name in parents) {
+    const parent = parents[name];
+    return typeof parent === 'object'
+      ? getParentImportAlias(name)
+      : parent.toString();
+  }
+  if (isAbstractType(type)) {
+    const definitions = schema.getPossibleTypes(type).map(t => {
+      return getResolverParentDefinition(t, schema, parents, importTypes);
+    });
+    return definitions.length === 0 ? 'never' : definitions.join(' | ');
+  }
+  if (isGQLScalarType(name)) {
+    return transpileGQLTypeName(name);
+  }
+  const compiledName = isObjectType(type) ? toCamelCase(name) : name;
+
+  if (!importTypes.includes(compiledName)) {
+    importTypes.push(compiledName);
+  }
+  return compiledName;
+}
+
+/**
+ * Recursively gets resolver result definition. Named types are replaced with
+ * their parents, due to they are passed to resolvers of these types
+ * @param {GraphQLOutputType} type
+ * @param {GraphQLSchema} schema
+ * @param {ResolversParentsMap} parents
+ * @param {string[]} importTypes
+ * @param {boolean} nullable
+ * @returns {string}
+ */
+function getResolverResultDefinition(
+  type: GraphQLOutputType,
+  schema: GraphQLSchema,
+  parents: ResolversParentsMap,
+  importTypes: string[],
+  nullable = true,
+): string {
+  if (isNonNullType(type)) {
+    return getResolverResultDefinition(
+      type.ofType, schema, parents, importTypes, false,
+    );
+  }
+  let definition: string;
+
+  if (isListType(type)) {
+    const itemDefinition = getResolverResultDefinition(
+      type.ofType, schema, parents, importTypes,
+    );
+    definition = itemDefinition.includes(' | ')
+      ? `(${itemDefinition})[]`
+      : `${itemDefinition}[]`;
+  } else {
+    definition =
+      getResolverParentDefinition(type, schema, parents, importTypes);
+  }
+
+  return nullable ? makeNullable(definition) : definition;
+}
+
+/**
+ * Generates resolvers of GQL schema. Each object type gets interface with
+ * its fields resolvers, abstract types get "__resolveType" resolver and
+ * custom scalars get GraphQLScalarType. All of them are collected in
+ * "Resolvers" interface
+ * @param {GraphQLSchema} schema
+ * @param {string} schemaFileName
+ * @param {ResolversParentsMap} parents
+ * @param {EntityStyle} entityStyle
+ * @returns {string}
+ */
+export function generateResolvers(
+  schema: GraphQLSchema,
+  schemaFileName: string,
+  parents: ResolversParentsMap = {},
+  entityStyle: EntityStyle = 'namespace',
+): string {
+  const importTypes: string[] = [];
+  const subscriptionType = schema.getSubscriptionType();
+  const rootTypes = [
+    schema.getQueryType(),
+    schema.getMutationType(),
+    subscriptionType,
+  ];
+  const types = schema.toConfig().types.filter(t => t.astNode);
+  let hasScalars = false;
+
+  const {definitions, fields} = types.reduce<{
+    definitions: string[];
+    fields: string[];
+  }>((acc, type) => {
+    const {name, description} = type;
+
+    if (isScalarType(type)) {
+      hasScalars = true;
+      acc.fields.push(`${name}?: GraphQLScalarType;\n`);
+      return acc;
+    }
+
+    let definition = '';
+
+    if (isObjectType(type)) {
+      const compiledName = toCamelCase(name);
+      // Operation root types are not resolved from parents, so they receive
+      // empty object by default
+      const parent = rootTypes.includes(type) && !(name in parents)
+        ? '{}'
+        : getResolverParentDefinition(type, schema, parents, importTypes);
+      const resolver = type === subscriptionType
+        ? 'SubscriptionResolver'
+        : 'Resolver';
+
+      definition = Object.values(type.getFields()).reduce((fAcc, f) => {
+        const result = getResolverResultDefinition(
+          f.type, schema, parents, importTypes,
+        );
+        let args = '{}';
+
+        // Arguments are placed into namespace or separate interface
+        // depending on entity style
+        if (f.args.length > 0) {
+          const argsType = entityStyle === 'interface'
+            ? getArgumentsInterfaceName(compiledName, f.name)
+            : compiledName;
+          args = entityStyle === 'interface'
+            ? argsType
+            : `${compiledName}.${f.name}.Arguments`;
+
+          if (!importTypes.includes(argsType)) {
+            importTypes.push(argsType);
+          }
+        }
+
+        return fAcc
+          + formatDescription(f.description)
+          + `${f.name}?: `
+          + `${resolver}<${result}, ${parent}, ${args}, TContext>;\n`;
+      }, '');
+    } else if (isUnionType(type) || isInterfaceType(type)) {
+      const typeNames = schema
+        .getPossibleTypes(type)
+        .map(t => `'${t.name}'`)
+        .join(' | ') || 'never';
+      const parent =
+        getResolverParentDefinition(type, schema, parents, importTypes);
+
+      definition = '__resolveType?: '
+        + `TypeResolver<${typeNames}, ${parent}, TContext>;\n`;
+    } else {
+      return acc;
+    }
+
+    acc.definitions.push(
+      formatDescription(description)
+      + `export interface ${name}Resolvers<TContext = any> {\n`
+      + withSpaces(definition, 2)
+      + '}\n',
+    );
+    acc.fields.push(`${name}?: ${name}Resolvers<TContext>;\n`);
+
+    return acc;
+  }, {definitions: [], fields: []});
+
+  // Parents types imported from modules
+  const parentsImports = types.reduce<string>((acc, {name}) => {
+    return name in parents
+      ? acc + generateTypeImport(parents[name], getParentImportAlias(name))
+      : acc;
+  }, '');
+
+  const graphqlImports = hasScalars
+    ? 'GraphQLResolveInfo, GraphQLScalarType'
+    : 'GraphQLResolveInfo';
+
+  return `import { ${graphqlImports} } from 'graphql';\n`
+    + parentsImports
     + formatImportTypes(importTypes, schemaFileName)
-    // Namespace
-    + generateOperationRootNamespace(namespace)
-    // Operation result interface
-    + generatePreparedObject(selection, true)
-    // Operation export
-    + `export ${operationConst}`;
+    + (parentsImports.length > 0 && importTypes.length === 0 ? '\n' : '')
+    + resolversHelperTypes
+    + '\n'
+    + definitions.join('\n')
+    + '\nexport interface Resolvers<TContext = any> {\n'
+    + withSpaces(fields.join(''), 2)
+    + '}\n';
+}
+
+/**
+ * Generators of GQL scalars values. Each generator receives pseudo-random
+ * number in range [0, 1)
+ * @type {Record<string, string>}
+ */
+const scalarGenerators: Record<string, string> = {
+  ID: 'r => String(Math.floor(r * 1000000))',
+  String: 'r => Math.floor(r * 2176782336).toString(36)',
+  Int: 'r => Math.floor(r * 1000)',
+  Float: 'r => Math.round(r * 100000) / 100',
+  Boolean: 'r => r < 0.5',
+};
+
+const mocksHelpers = `let seed = 1;
+
+/**
+ * Returns next pseudo-random number in range [0, 1)
+ */
+function random(): number {
+  seed = seed * 16807 % 2147483647;
+  return (seed - 1) / 2147483646;
+}
+
+/**
+ * Generates scalar value from pseudo-random number in range [0, 1)
+ */
+export type ScalarGenerator = (random: number) => any;
+
+const generators: Record<string, ScalarGenerator> = {
+%generators%};
+
+/**
+ * Sets seed of mocked values. Same seeds lead to same values
+ */
+export function seedMocks(value: number): void {
+  seed = Math.abs(Math.floor(value)) % 2147483646 + 1;
+}
+
+/**
+ * Registers generator of scalar values. Input types of scalars with separate
+ * input and output types are registered as "Name.Input"
+ */
+export function registerScalarGenerator(
+  name: string,
+  generator: ScalarGenerator,
+): void {
+  generators[name] = generator;
+}
+
+/**
+ * Returns mocked scalar value. Throws an error in case, scalar has no
+ * generator
+ */
+export function mockScalar(name: string): any {
+  if (!(name in generators)) {
+    throw new Error(
+      \`Unable to mock scalar \${name} as it has no generator. Register it \`
+      + \`with registerScalarGenerator('\${name}', random => ...)\`,
+    );
+  }
+  return generators[name](random());
+}
+
+/**
+ * Returns one of passed values
+ */
+export function mockOneOf<T>(values: T[]): T {
+  return values[Math.floor(random() * values.length)];
+}
+
+/**
+ * Returns overridden value of field. Field is mocked only in case, it is
+ * not overridden
+ */
+export function mockField<T, K extends keyof T>(
+  overrides: Partial<T>,
+  field: K,
+  mock: () => T[K],
+): T[K] {
+  return field in overrides ? overrides[field] as T[K] : mock();
+}
+
+/**
+ * Returns mocked nested object. Types already mocked in path to this object
+ * are mocked with null, so cyclic references do not lead to infinite
+ * recursion
+ */
+export function mockNested<T>(
+  name: string,
+  path: string[],
+  factory: (overrides: {}, path: string[]) => T,
+): T {
+  return path.includes(name) ? null as any : factory({}, path);
+}
+`;
+
+/**
+ * Returns default generator of custom scalar depending on its type. Types
+ * imported from modules do not have default generators
+ * @param {ScalarType} type
+ * @returns {string | null}
+ */
+function getScalarGenerator(type: ScalarType): string | null {
+  if (typeof type === 'number') {
+    return `() => ${type}`;
+  }
+  if (type === 'string') {
+    return scalarGenerators.String;
+  }
+  if (type === 'number') {
+    return scalarGenerators.Float;
+  }
+  if (type === 'boolean') {
+    return scalarGenerators.Boolean;
+  }
+  return null;
+}
+
+/**
+ * Recursively gets mocked value definition of field type. Lists are mocked
+ * with empty arrays and nullable objects with null. Non-null objects are
+ * mocked with their factories receiving path of already mocked types
+ * @param {GraphQLType} type
+ * @param {GraphQLSchema} schema
+ * @param {string[]} inputScalars
+ * @param {string[]} importTypes
+ * @param {boolean} nullable
+ * @returns {string}
+ */
+function getMockDefinition(
+  type: GraphQLType,
+  schema: GraphQLSchema,
+  inputScalars: string[],
+  importTypes: string[],
+  nullable = true,
+): string {
+  if (isNonNullType(type)) {
+    return getMockDefinition(
+      type.ofType, schema, inputScalars, importTypes, false,
+    );
+  }
+  if (isListType(type)) {
+    return '[]';
+  }
+  if (isScalarType(type)) {
+    const {name} = type;
+    return inputScalars.includes(name)
+      ? `mockScalar('${name}.Input')`
+      : `mockScalar('${name}')`;
+  }
+  if (isEnumType(type)) {
+    const values = type.getValues().map(v => `'${v.name}'`).join(', ');
+
+    if (!importTypes.includes(type.name)) {
+      importTypes.push(type.name);
+    }
+    return `mockOneOf([${values}]) as ${type.name}`;
+  }
+  if (nullable) {
+    return 'null';
+  }
+  // Interfaces are mocked with their first implementation
+  const [mockedType] = isInterfaceType(type)
+    ? schema.getPossibleTypes(type)
+    : [type];
+
+  return mockedType
+    ? `mockNested('${mockedType.name}', nested, `
+    + `mock${toCamelCase(mockedType.name)})`
+    : 'null';
+}
+
+/**
+ * Generates factories of mocked objects, inputs and unions of GQL schema.
+ * Factories produce deterministic values depending on seed and accept
+ * objects which fields override mocked ones. Factories of types containing
+ * other objects additionally accept path of types mocked before
+ * @param {GraphQLSchema} schema
+ * @param {string} schemaFileName
+ * @param {ScalarsMap} scalars
+ * @returns {string}
+ */
+export function generateMocks(
+  schema: GraphQLSchema,
+  schemaFileName: string,
+  scalars: ScalarsMap = {},
+): string {
+  const importTypes: string[] = [];
+  const inputScalars = getInputScalarNames(scalars);
+  const types = schema.toConfig().types.filter(t => t.astNode);
+
+  // Custom scalars get default generators depending on their types
+  const generators = types.reduce<string>((acc, {name}) => {
+    if (!(name in scalars)) {
+      return acc;
+    }
+    const definition = scalars[name];
+    const {output, input} =
+      typeof definition === 'object' && 'input' in definition
+        ? {
+          output: getScalarGenerator(definition.output),
+          input: getScalarGenerator(definition.input),
+        }
+        : {output: getScalarGenerator(definition), input: null};
+
+    return acc
+      + (output === null ? '' : `${name}: ${output},\n`)
+      + (input === null ? '' : `'${name}.Input': ${input},\n`);
+  }, Object.entries(scalarGenerators).reduce((acc, [name, generator]) => {
+    return acc + `${name}: ${generator},\n`;
+  }, ''));
+
+  // Types are parsed once, mocks reuse fields of parsed entities
+  const parsedTypes = types.reduce<[GraphQLNamedType, NamedGQLType][]>(
+    (acc, type) => {
+      const parsed = parseNamedType(type, inputScalars);
+
+      if (parsed !== null) {
+        acc.push([type, parsed]);
+      }
+      return acc;
+    }, [],
+  );
+
+  // Mocked fields of objects and inputs
+  const fieldsMocks = parsedTypes.reduce<Record<string, string[]>>(
+    (acc, [type, parsed]) => {
+      if (
+        parsed.__type !== 'entity'
+        || !(isObjectType(type) || isInputObjectType(type))
+      ) {
+        return acc;
+      }
+      acc[type.name] = parsed.fields.fields.map(({name, fieldType}) => {
+        const mock = getMockDefinition(
+          fieldType,
+          schema,
+          isObjectType(type) ? [] : inputScalars,
+          importTypes,
+        );
+        return `${name}: mockField(overrides, '${name}', () => ${mock}),\n`;
+      });
+
+      return acc;
+    }, {},
+  );
+
+  // Types which factories accept path of mocked types
+  const nestedTypes = Object.keys(fieldsMocks).filter(name => {
+    return fieldsMocks[name].some(m => m.includes('mockNested('));
+  });
+
+  const factories = parsedTypes.reduce<string[]>((acc, [type, parsed]) => {
+    // Unions are mocked with their first type
+    if (parsed.__type === 'union' && isUnionType(type)) {
+      const [firstType] = type.getTypes();
+      const mockedName = toCamelCase(firstType.name);
+      const withPath = nestedTypes.includes(firstType.name);
+
+      [parsed.name, mockedName].forEach(t => {
+        if (!importTypes.includes(t)) {
+          importTypes.push(t);
+        }
+      });
+      acc.push(
+        formatDescription(`Returns mocked ${parsed.name}`)
+        + `export function mock${parsed.name}(\n`
+        + `  overrides: Partial<${mockedName}> = {},\n`
+        + (withPath ? '  path: string[] = [],\n' : '')
+        + `): ${parsed.name} {\n`
+        + `  return mock${mockedName}(overrides${withPath ? ', path' : ''});\n`
+        + '}\n',
+      );
+      return acc;
+    }
+    if (
+      parsed.__type !== 'entity'
+      || !(isObjectType(type) || isInputObjectType(type))
+    ) {
+      return acc;
+    }
+    const {name} = parsed.fields;
+    const typename = isObjectType(type)
+      ? `__typename: '${type.name}',\n`
+      : '';
+    const withPath = nestedTypes.includes(type.name);
+
+    if (!importTypes.includes(name)) {
+      importTypes.push(name);
+    }
+    acc.push(
+      formatDescription(`Returns mocked ${name}`)
+      + `export function mock${name}(\n`
+      + `  overrides: Partial<${name}> = {},\n`
+      + (withPath ? '  path: string[] = [],\n' : '')
+      + `): ${name}`
+      + (typename ? ` & { __typename: '${type.name}' }` : '')
+      + ' {\n'
+      + (withPath ? `  const nested = [...path, '${type.name}'];\n\n` : '')
+      + '  return {\n'
+      + withSpaces(typename + fieldsMocks[type.name].join(''), 4)
+      + '  };\n'
+      + '}\n',
+    );
+
+    return acc;
+  }, []);
+
+  return formatImportTypes(importTypes, schemaFileName)
+    + mocksHelpers.replace('%generators%', withSpaces(generators, 2))
+    + '\n'
+    + factories.join('\n');
 }
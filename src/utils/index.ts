@@ -1,3 +1,4 @@
+export * from './extracting';
 export * from './generation';
 export * from './misc';
 export * from './parsing';
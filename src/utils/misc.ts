@@ -1,22 +1,45 @@
 import {
   CompiledTypeName, GQLScalarCompiledTypesMap, GQLScalarType, DisplayType,
-  GraphQLNonWrappedType, DefinitionWithImportTypes,
+  GraphQLNonWrappedType, DefinitionWithImportTypes, FragmentsMap,
+  ValidationOptions, ScalarsMap,
 } from '../types';
 import {
+  ASTNode,
+  astFromValue,
+  concatAST,
+  DirectiveNode,
+  DocumentNode,
+  FieldNode,
+  FragmentDefinitionNode,
+  FragmentSpreadNode,
+  GraphQLAbstractType,
+  GraphQLArgument,
+  GraphQLError,
   GraphQLField,
   GraphQLFieldConfig, GraphQLInputType,
+  GraphQLInterfaceType,
   GraphQLNamedType,
   GraphQLObjectType,
   GraphQLOutputType,
   GraphQLSchema,
+  isAbstractType,
   isInterfaceType,
   isListType,
   isNonNullType,
   isObjectType,
+  isUnionType,
   isWrappingType,
   OperationTypeNode,
+  parse,
+  print,
+  printError,
+  SelectionSetNode,
+  Source,
+  specifiedRules,
   TypeNode,
+  ValidationRule,
 } from 'graphql';
+import {createHash} from 'crypto';
 import {getFileName} from '../fs';
 
 // Defines which GQL type converts to which TypeScript type
@@ -71,8 +94,84 @@ export function formatDescription(
   if (!description) {
     return '';
   }
+  // Closing sequence is escaped to not break comment
+  const lines = description
+    .replace(/\*\//g, '*\\/')
+    .split(/\r?\n/)
+    .map(l => l.length === 0 ? ' *' : ` * ${l}`);
 
-  return withSpaces(`/**\n * ${description}\n */`, spacesCount) + '\n';
+  return withSpaces(`/**\n${lines.join('\n')}\n */`, spacesCount) + '\n';
+}
+
+/**
+ * Joins description and JSDoc tags. Empty tags are skipped
+ * @param {string | null | undefined} description
+ * @param {(string | null)[]} tags
+ * @returns {string | undefined}
+ */
+export function withDocTags(
+  description: string | null | undefined,
+  tags: (string | null)[],
+): string | undefined {
+  const lines = [description, ...tags].filter(l => !!l);
+  return lines.length === 0 ? undefined : lines.join('\n');
+}
+
+/**
+ * Returns JSDoc tag of deprecated field or enum value
+ * @param {string | null | undefined} reason
+ * @returns {string | null}
+ */
+export function getDeprecationTag(
+  reason: string | null | undefined,
+): string | null {
+  return reason ? `@deprecated ${reason}` : null;
+}
+
+/**
+ * Returns default value of argument or input field printed as GQL value
+ * @param value
+ * @param {GraphQLInputType} type
+ * @returns {string | null}
+ */
+function printDefaultValue(value: any, type: GraphQLInputType): string | null {
+  if (value === undefined) {
+    return null;
+  }
+  const node = astFromValue(value, type);
+  return node ? print(node) : null;
+}
+
+/**
+ * Returns JSDoc tag of input field default value
+ * @param value
+ * @param {GraphQLInputType} type
+ * @returns {string | null}
+ */
+export function getDefaultValueTag(
+  value: any,
+  type: GraphQLInputType,
+): string | null {
+  const printed = printDefaultValue(value, type);
+  return printed === null ? null : `@default ${printed}`;
+}
+
+/**
+ * Returns JSDoc tag of field argument. Arguments without description and
+ * default value do not have tags
+ * @param {GraphQLArgument} arg
+ * @returns {string | null}
+ */
+export function getArgumentTag(arg: GraphQLArgument): string | null {
+  const {name, description, defaultValue, type} = arg;
+  const value = printDefaultValue(defaultValue, type);
+
+  if (!description && value === null) {
+    return null;
+  }
+  const param = value === null ? name : `[${name}=${value}]`;
+
+  return description ? `@param ${param} ${description}` : `@param ${param}`;
 }
 
 /**
@@ -93,6 +192,62 @@ export function transpileGQLTypeName(value: string): CompiledTypeName {
   return isGQLScalarType(value) ? gqlScalarTypesMap[value] : value;
 }
 
+/**
+ * Returns names of scalars which have separate input types
+ * @param {ScalarsMap} scalars
+ * @returns {string[]}
+ */
+export function getInputScalarNames(scalars: ScalarsMap = {}): string[] {
+  return Object.keys(scalars).filter(name => {
+    const definition = scalars[name];
+    return typeof definition === 'object' && 'input' in definition;
+  });
+}
+
+/**
+ * Returns type name used in input positions like arguments, variables and
+ * input fields. Scalars with separate input types refer to them
+ * @param {string} name
+ * @param {string[]} inputScalars
+ * @returns {CompiledTypeName}
+ */
+export function transpileGQLInputTypeName(
+  name: string,
+  inputScalars: string[],
+): CompiledTypeName {
+  return inputScalars.includes(name)
+    ? `${name}.Input`
+    : transpileGQLTypeName(name);
+}
+
+/**
+ * States if argument or input field could be omitted. Nullable and defaulted
+ * values are optional
+ * @param {GraphQLInputType} type
+ * @param {unknown} defaultValue
+ * @returns {boolean}
+ */
+export function isInputOptional(
+  type: GraphQLInputType,
+  defaultValue: unknown,
+): boolean {
+  return !isNonNullType(type) || defaultValue !== undefined;
+}
+
+/**
+ * Returns name of interface of field arguments emitted with "interface"
+ * entity style
+ * @param {string} typeName
+ * @param {string} fieldName
+ * @returns {string}
+ */
+export function getArgumentsInterfaceName(
+  typeName: string,
+  fieldName: string,
+): string {
+  return `${typeName}_${fieldName}_Args`;
+}
+
 /**
  * Makes type nullable
  * @returns {string}
@@ -107,23 +262,25 @@ export function makeNullable(type: string): string {
  * @param {TypeNode} node
  * @param importTypes
  * @param {boolean} nullable
+ * @param {string[]} inputScalars
  * @returns {string}
  */
 export function getTypeNodeDefinition(
   node: TypeNode,
   importTypes: string[] = [],
   nullable = true,
+  inputScalars: string[] = [],
 ): DefinitionWithImportTypes {
   switch (node.kind) {
     case 'NonNullType':
-      return getTypeNodeDefinition(node.type, importTypes, false);
+      return getTypeNodeDefinition(node.type, importTypes, false, inputScalars);
     case 'NamedType':
     case 'ListType':
       let definition = '';
 
       if (node.kind === 'NamedType') {
         const name = node.name.value;
-        definition = transpileGQLTypeName(name);
+        definition = transpileGQLInputTypeName(name, inputScalars);
 
         if (!isGQLScalarType(name) && !importTypes.includes(name)) {
           importTypes.push(name);
@@ -131,7 +288,7 @@ export function getTypeNodeDefinition(
       } else {
         const {
           importTypes: _importTypes, definition: _definition,
-        } = getTypeNodeDefinition(node.type, importTypes, true);
+        } = getTypeNodeDefinition(node.type, importTypes, true, inputScalars);
 
         _importTypes.forEach(t => {
           if (!isGQLScalarType(t) && !importTypes.includes(t)) {
@@ -154,22 +311,25 @@ export function getTypeNodeDefinition(
  * @param {GraphQLOutputType} type
  * @param importTypes
  * @param {boolean} nullable
+ * @param {string[]} inputScalars names of scalars with separate input types.
+ * Passed when type is placed in input position
  * @returns {string}
  */
 export function getIOTypeDefinition(
   type: GraphQLOutputType | GraphQLInputType,
   importTypes: string[] = [],
   nullable = true,
+  inputScalars: string[] = [],
 ): DefinitionWithImportTypes {
   if (isNonNullType(type)) {
-    return getIOTypeDefinition(type.ofType, importTypes, false);
+    return getIOTypeDefinition(type.ofType, importTypes, false, inputScalars);
   }
   let definition = '';
 
   if (isListType(type)) {
     const {
       importTypes: _importTypes, definition: _definition,
-    } = getIOTypeDefinition(type.ofType, importTypes, true);
+    } = getIOTypeDefinition(type.ofType, importTypes, true, inputScalars);
 
     _importTypes.forEach(t => {
       if (!isGQLScalarType(t) && !importTypes.includes(t)) {
@@ -179,7 +339,7 @@ export function getIOTypeDefinition(
     definition = `${_definition}[]`;
   } else {
     const {name} = type;
-    definition = transpileGQLTypeName(name);
+    definition = transpileGQLInputTypeName(name, inputScalars);
 
     if (!isGQLScalarType(name) && !importTypes.includes(name)) {
       importTypes.push(name);
@@ -196,9 +356,10 @@ export function getIOTypeDefinition(
 /**
  * Returns sorter depending on display type
  * @param {DisplayType} display
+ * @param sources
  * @returns {(a: GraphQLNamedType, b: GraphQLNamedType) => (number | number)}
  */
-export function getSorter(display: DisplayType) {
+export function getSorter(display: DisplayType, sources: Source[] = []) {
   const weights = {
     ScalarTypeDefinition: 0,
     EnumTypeDefinition: 1,
@@ -216,9 +377,16 @@ export function getSorter(display: DisplayType) {
       if (!b.astNode) {
         return 1;
       }
-      return display === 'as-is'
-        ? a.astNode.loc.start - b.astNode.loc.start
-        : weights[a.astNode.kind] - weights[b.astNode.kind];
+      if (display === 'as-is') {
+        const {loc: aLoc} = a.astNode;
+        const {loc: bLoc} = b.astNode;
+
+        // Types from different sources are placed in order of sources
+        return aLoc.source === bLoc.source
+          ? aLoc.start - bLoc.start
+          : sources.indexOf(aLoc.source) - sources.indexOf(bLoc.source);
+      }
+      return weights[a.astNode.kind] - weights[b.astNode.kind];
     }
     return 0;
   }
@@ -322,7 +490,7 @@ export function getFirstNonWrappingType(
  * @returns {CompiledTypeName}
  */
 export function getIn(
-  rootNode: GraphQLObjectType,
+  rootNode: GraphQLObjectType | GraphQLInterfaceType,
   path: string,
 ): GraphQLField<any, any> | GraphQLFieldConfig<any, any> {
   const [firstPartial, ...restPartials] = path.split('.');
@@ -359,6 +527,287 @@ export function getIn(
   }
 }
 
+/**
+ * Returns fragment definition by its name
+ * @param {FragmentsMap} fragments
+ * @param {string} name
+ * @returns {FragmentDefinitionNode}
+ */
+export function getFragment(
+  fragments: FragmentsMap,
+  name: string,
+): FragmentDefinitionNode {
+  const fragment = fragments[name];
+
+  if (!fragment) {
+    throw new Error(`Unable to find fragment ${name}`);
+  }
+  return fragment;
+}
+
+/**
+ * Throws an error located at fragment spread in case, spread fragment is
+ * already being expanded
+ * @param {FragmentSpreadNode} node
+ * @param {string[]} path
+ */
+function assertFragmentNotCyclic(node: FragmentSpreadNode, path: string[]) {
+  const name = node.name.value;
+
+  if (path.includes(name)) {
+    const via = path.slice(path.indexOf(name) + 1);
+    throw toLocatedError(new Error(
+      `Cannot spread fragment ${name} within itself`
+      + (via.length > 0 ? ` via ${via.join(', ')}` : ''),
+    ), node);
+  }
+}
+
+/**
+ * States if fragment type condition applies to passed type
+ * @param {string} condition
+ * @param {GraphQLNamedType} type
+ * @param {GraphQLSchema} schema
+ * @returns {boolean}
+ */
+export function doesTypeConditionApply(
+  condition: string,
+  type: GraphQLNamedType,
+  schema: GraphQLSchema,
+): boolean {
+  if (condition === type.name) {
+    return true;
+  }
+  const conditionType = schema.getType(condition);
+
+  return isObjectType(type)
+    && isAbstractType(conditionType)
+    && schema.isPossibleType(conditionType, type);
+}
+
+/**
+ * States if selection set of abstract type has to be compiled as union of
+ * its possible types. It happens when type is union or selection set
+ * contains fragments with type conditions other than this type
+ * @param {SelectionSetNode} selectionSet
+ * @param {GraphQLNamedType} type
+ * @param {FragmentsMap} fragments
+ * @returns {type is GraphQLAbstractType}
+ */
+export function isSelectionSetPolymorphic(
+  selectionSet: SelectionSetNode,
+  type: GraphQLNamedType,
+  fragments: FragmentsMap = {},
+): type is GraphQLAbstractType {
+  if (!isAbstractType(type)) {
+    return false;
+  }
+  if (isUnionType(type)) {
+    return true;
+  }
+  return selectionSet.selections.some(s => {
+    if (s.kind === 'Field') {
+      return false;
+    }
+    const {typeCondition, selectionSet} = s.kind === 'FragmentSpread'
+      ? getFragment(fragments, s.name.value)
+      : s;
+
+    return (typeCondition && typeCondition.name.value !== type.name)
+      || isSelectionSetPolymorphic(selectionSet, type, fragments);
+  });
+}
+
+/**
+ * States if directive is @include or @skip which can exclude node from
+ * response
+ * @param {DirectiveNode} directive
+ * @returns {boolean}
+ */
+export function isConditionalDirective(directive: DirectiveNode): boolean {
+  const name = directive.name.value;
+
+  if (name !== 'include' && name !== 'skip') {
+    return false;
+  }
+  const arg = (directive.arguments || []).find(a => a.name.value === 'if');
+
+  // Literal conditions like @include(if: true) never exclude node
+  if (arg && arg.value.kind === 'BooleanValue') {
+    return arg.value.value === (name === 'skip');
+  }
+  return true;
+}
+
+/**
+ * Returns name of field in response. It is alias if it was passed, otherwise
+ * it is field name
+ * @param {FieldNode} node
+ * @returns {string}
+ */
+export function getFieldNodeResponseName(node: FieldNode): string {
+  return node.alias ? node.alias.value : node.name.value;
+}
+
+/**
+ * States if field can be absent in response due to @include or @skip
+ * directives
+ * @param {FieldNode} node
+ * @returns {boolean}
+ */
+export function isFieldNodeConditional(node: FieldNode): boolean {
+  return (node.directives || []).some(isConditionalDirective);
+}
+
+/**
+ * Returns list of fields selected in selection set for passed type. Expands
+ * fragments which type conditions apply to this type and merges fields with
+ * the same response name into a single one
+ * @param {SelectionSetNode} selectionSet
+ * @param {GraphQLNamedType} type
+ * @param {GraphQLSchema} schema
+ * @param {FragmentsMap} fragments
+ * @param {string[]} path names of fragments being expanded
+ * @returns {FieldNode[]}
+ */
+export function getSelectionSetFields(
+  selectionSet: SelectionSetNode,
+  type: GraphQLNamedType,
+  schema: GraphQLSchema,
+  fragments: FragmentsMap = {},
+  path: string[] = [],
+): FieldNode[] {
+  return selectionSet.selections.reduce<FieldNode[]>((acc, s) => {
+    let fields: FieldNode[] = [];
+
+    if (s.kind === 'Field') {
+      fields = [s];
+    } else {
+      let fragmentPath = path;
+
+      if (s.kind === 'FragmentSpread') {
+        assertFragmentNotCyclic(s, path);
+        fragmentPath = [...path, s.name.value];
+      }
+      const {typeCondition, selectionSet} = s.kind === 'FragmentSpread'
+        ? getFragment(fragments, s.name.value)
+        : s;
+
+      if (
+        !typeCondition
+        || doesTypeConditionApply(typeCondition.name.value, type, schema)
+      ) {
+        const conditions = (s.directives || []).filter(isConditionalDirective);
+        fields = getSelectionSetFields(
+          selectionSet, type, schema, fragments, fragmentPath,
+        );
+
+        // Fields of conditionally included fragment are conditional too
+        if (conditions.length > 0) {
+          fields = fields.map(f => ({
+            ...f,
+            directives: [...(f.directives || []), ...conditions],
+          }));
+        }
+      }
+    }
+
+    fields.forEach(f => {
+      const idx = acc.findIndex(a => {
+        return getFieldNodeResponseName(a) === getFieldNodeResponseName(f);
+      });
+
+      if (idx === -1) {
+        acc.push(f);
+        return;
+      }
+      const {selectionSet, directives = []} = acc[idx];
+
+      // Field stays conditional only in case, all of its occurrences are
+      // conditional
+      if (!isFieldNodeConditional(f)) {
+        acc[idx] = {
+          ...acc[idx],
+          directives: directives.filter(d => !isConditionalDirective(d)),
+        };
+      }
+
+      // Selection sets of the same field are merged. Their duplicates will
+      // be merged while getting fields of this selection set
+      if (selectionSet && f.selectionSet) {
+        acc[idx] = {
+          ...acc[idx],
+          selectionSet: {
+            ...selectionSet,
+            selections: [
+              ...selectionSet.selections,
+              ...f.selectionSet.selections,
+            ],
+          },
+        };
+      }
+    });
+
+    return acc;
+  }, []);
+}
+
+/**
+ * Returns definition of __typename field for passed type. For abstract types
+ * it is a union of all possible types names
+ * @param {GraphQLNamedType} type
+ * @param {GraphQLSchema} schema
+ * @returns {string}
+ */
+export function getTypenameDefinition(
+  type: GraphQLNamedType,
+  schema: GraphQLSchema,
+): string {
+  const names = isAbstractType(type)
+    ? schema.getPossibleTypes(type).map(t => t.name)
+    : [type.name];
+
+  return names.length === 0
+    ? 'never'
+    : names.map(n => `'${n}'`).join(' | ');
+}
+
+/**
+ * Returns names of fragments used in selection set including fragments used
+ * by these fragments
+ * @param {SelectionSetNode} selectionSet
+ * @param {FragmentsMap} fragments
+ * @param {string[]} names
+ * @param {string[]} path names of fragments being visited
+ * @returns {string[]}
+ */
+export function getSelectionSetFragmentNames(
+  selectionSet: SelectionSetNode,
+  fragments: FragmentsMap,
+  names: string[] = [],
+  path: string[] = [],
+): string[] {
+  selectionSet.selections.forEach(s => {
+    if (s.kind === 'FragmentSpread') {
+      const name = s.name.value;
+      assertFragmentNotCyclic(s, path);
+
+      if (names.includes(name)) {
+        return;
+      }
+      names.push(name);
+      getSelectionSetFragmentNames(
+        getFragment(fragments, name).selectionSet, fragments, names,
+        [...path, name],
+      );
+    } else if (s.selectionSet) {
+      getSelectionSetFragmentNames(s.selectionSet, fragments, names, path);
+    }
+  });
+
+  return names;
+}
+
 /**
  * Formats imports for custom types
  * @param {string[]} types
@@ -371,3 +820,106 @@ export function formatImportTypes(types: string[], schemaFileName: string) {
     ? ''
     : `import { ${types.join(', ')} } from './${schemaName}';\n\n`;
 }
+
+/**
+ * Returns validation rules depending on validation options
+ * @param {ValidationOptions} options
+ * @returns {ValidationRule[]}
+ */
+export function getValidationRules(
+  options: ValidationOptions,
+): ValidationRule[] {
+  if (typeof options === 'boolean') {
+    return options ? [...specifiedRules] : [];
+  }
+  const {rules, skipRules = []} = options;
+  const ruleNames = specifiedRules.map(r => r.name);
+
+  [...(rules || []), ...skipRules].forEach(name => {
+    if (!ruleNames.includes(name)) {
+      throw new Error(
+        `Unknown validation rule ${name}. Valid values are `
+        + ruleNames.join(', '),
+      );
+    }
+  });
+
+  return specifiedRules.filter(r => {
+    return (!rules || rules.includes(r.name)) && !skipRules.includes(r.name);
+  });
+}
+
+/**
+ * Formats GraphQL errors into a single message. Each located error contains
+ * path to file, line and column where it occurred and code frame
+ * @param {string} title
+ * @param {readonly GraphQLError[]} errors
+ * @returns {string}
+ */
+export function formatGraphQLErrors(
+  title: string,
+  errors: readonly GraphQLError[],
+): string {
+  return errors.reduce((acc, e) => acc + '\n\n' + printError(e), title);
+}
+
+/**
+ * Converts error to GraphQL error located at passed node. Keeps location of
+ * already located errors
+ * @param {Error} error
+ * @param {ASTNode} node
+ * @returns {GraphQLError}
+ */
+export function toLocatedError(error: Error, node: ASTNode): GraphQLError {
+  return error instanceof GraphQLError
+    ? error
+    : new GraphQLError(
+      error.message, [node], undefined, undefined, undefined, error,
+    );
+}
+
+/**
+ * Converts definition to list of sources
+ * @param {string | Source[]} definition
+ * @returns {Source[]}
+ */
+export function toSources(definition: string | Source[]): Source[] {
+  return typeof definition === 'string' ? [new Source(definition)] : definition;
+}
+
+/**
+ * Parses sources and concatenates them into a single document. Reports
+ * syntax errors of all sources
+ * @param {Source[]} sources
+ * @param {string} title
+ * @returns {DocumentNode}
+ */
+export function parseSources(sources: Source[], title: string): DocumentNode {
+  const errors: GraphQLError[] = [];
+  const documents = sources.reduce<DocumentNode[]>((acc, s) => {
+    try {
+      acc.push(parse(s));
+    } catch (e) {
+      if (!(e instanceof GraphQLError)) {
+        throw e;
+      }
+      errors.push(e);
+    }
+    return acc;
+  }, []);
+
+  if (errors.length > 0) {
+    throw new Error(formatGraphQLErrors(title, errors));
+  }
+  return concatAST(documents);
+}
+
+/**
+ * Returns SHA-256 hash of operation signature, which is used as persisted
+ * query identifier
+ * @param {string} signature
+ * @returns {string}
+ */
+export function getSignatureHash(signature: string): string {
+  return createHash('sha256').update(signature).digest('hex');
+}
@@ -7,15 +7,21 @@ import {
   PreparedObject,
   Operation,
   PreparedObjectField,
-  OperationNamespaceField, OperationRootNamespace, NamedGQLType,
+  OperationNamespaceField, OperationRootNamespace, NamedGQLType, FragmentsMap,
+  Fragment,
+  PreparedUnion,
 } from '../types';
 import {
   FieldNode,
+  FragmentDefinitionNode,
+  GraphQLAbstractType,
   GraphQLEnumType,
   GraphQLInputObjectType,
   GraphQLInterfaceType,
   GraphQLNamedType,
+  GraphQLNonNull,
   GraphQLObjectType,
+  GraphQLOutputType,
   GraphQLScalarType,
   GraphQLSchema,
   GraphQLUnionType,
@@ -30,10 +36,23 @@ import {
 } from 'graphql';
 import {
   getCompiledOperationName, getCompiledOperationNamespaceName,
+  getFieldNodeResponseName,
+  getFirstNonWrappingType,
   getIn, getIOTypeDefinition,
   getOperationRootNode,
+  getSelectionSetFields,
+  getSelectionSetFragmentNames,
+  getTypenameDefinition,
+  isFieldNodeConditional,
+  isSelectionSetPolymorphic,
   getTypeNodeDefinition,
+  getArgumentTag,
+  isInputOptional,
+  getDefaultValueTag,
+  getDeprecationTag,
+  withDocTags,
   toCamelCase,
+  toLocatedError,
   transpileGQLTypeName,
 } from './misc';
 
@@ -42,8 +61,15 @@ import {
  * Int, Float and other
  * @returns {NamedGQLType}
  * @param type
+ * @param inputScalars names of scalars with separate input types
+ * @param optionalInputFields states if nullable and defaulted input fields
+ * are optional
  */
-export function parseNamedType(type: GraphQLNamedType): NamedGQLType | null {
+export function parseNamedType(
+  type: GraphQLNamedType,
+  inputScalars: string[] = [],
+  optionalInputFields = false,
+): NamedGQLType | null {
   if (!type.astNode) {
     return null;
   } else if (isScalarType(type)) {
@@ -53,9 +79,9 @@ export function parseNamedType(type: GraphQLNamedType): NamedGQLType | null {
   } else if (isEnumType(type)) {
     return parseEnumType(type);
   } else if (isObjectType(type) || isInterfaceType(type)) {
-    return parseObjectOrInterfaceType(type);
+    return parseObjectOrInterfaceType(type, inputScalars);
   }
-  return parseInputObjectType(type);
+  return parseInputObjectType(type, inputScalars, optionalInputFields);
 }
 
 /**
@@ -70,9 +96,11 @@ export function parseEnumType(type: GraphQLEnumType): Enum {
     __type: 'enum',
     name,
     description,
-    values: type.getValues().map<EnumValue>(({description, name}) => ({
-      description,
-      name,
+    values: type.getValues().map<EnumValue>(v => ({
+      description: withDocTags(v.description, [
+        getDeprecationTag(v.deprecationReason),
+      ]),
+      name: v.name,
     })),
   };
 }
@@ -81,33 +109,45 @@ export function parseEnumType(type: GraphQLEnumType): Enum {
  * Parses GraphQLInterfaceType and GraphQLObjectType
  * @returns {Entity}
  * @param type
+ * @param inputScalars
  */
 export function parseObjectOrInterfaceType(
   type: GraphQLInterfaceType | GraphQLObjectType,
+  inputScalars: string[] = [],
 ): Entity {
   const {description, name} = type;
   const fields = type.getFields();
   const formattedName = toCamelCase(name);
 
   return Object.values(fields).reduce<Entity>((acc, f) => {
-    const {name: fieldName, type, description: fieldDescription, args} = f;
+    const {
+      name: fieldName,
+      type,
+      description: fieldDescription,
+      args,
+      deprecationReason,
+    } = f;
 
     // Fields
     acc.fields.fields.push({
       name: fieldName,
       description: fieldDescription,
       type: `${formattedName}.${fieldName}`,
+      deprecationReason,
+      fieldType: type,
     });
 
     // Arguments
     const preparedArguments = args.reduce<PreparedObject>((argAcc, arg) => {
-      const {type, name, description} = arg;
-      const {definition, importTypes} = getIOTypeDefinition(type);
+      const {type, name, description, defaultValue} = arg;
+      const {definition, importTypes} =
+        getIOTypeDefinition(type, [], true, inputScalars);
 
       argAcc.fields.push({
         name,
         description,
         type: definition,
+        optional: isInputOptional(type, defaultValue),
       });
 
       importTypes.forEach(t => {
@@ -133,9 +173,13 @@ export function parseObjectOrInterfaceType(
       }
     });
 
+    // Arguments and deprecation are described with JSDoc tags
     acc.namespace.fields.push({
       name: fieldName,
-      description: fieldDescription,
+      description: withDocTags(fieldDescription, [
+        ...args.map(getArgumentTag),
+        getDeprecationTag(deprecationReason),
+      ]),
       args: preparedArguments,
       type: definition,
     });
@@ -159,25 +203,39 @@ export function parseObjectOrInterfaceType(
 /**
  * Parses GraphQLInputObjectType
  * @param {GraphQLInputObjectType} type
+ * @param inputScalars
+ * @param optionalFields states if nullable and defaulted fields are optional
  * @returns {Entity}
  */
-export function parseInputObjectType(type: GraphQLInputObjectType): Entity {
+export function parseInputObjectType(
+  type: GraphQLInputObjectType,
+  inputScalars: string[] = [],
+  optionalFields = false,
+): Entity {
   const {description, name} = type;
   const fields = type.getFields();
   const formattedName = toCamelCase(name);
 
   return Object.values(fields).reduce<Entity>((acc, f) => {
-    const {name: fieldName, type, description: fieldDescription} = f;
+    const {
+      name: fieldName,
+      type,
+      description: fieldDescription,
+      defaultValue,
+    } = f;
 
     // Fields
     acc.fields.fields.push({
       name: fieldName,
       description: fieldDescription,
       type: `${formattedName}.${fieldName}`,
+      optional: optionalFields && isInputOptional(type, defaultValue),
+      fieldType: type,
     });
 
     // Namespace
-    const {definition, importTypes: fImportTypes} = getIOTypeDefinition(type);
+    const {definition, importTypes: fImportTypes} =
+      getIOTypeDefinition(type, [], true, inputScalars);
 
     // Add all collected required types
     fImportTypes.forEach(t => {
@@ -188,7 +246,9 @@ export function parseInputObjectType(type: GraphQLInputObjectType): Entity {
 
     acc.namespace.fields.push({
       name: fieldName,
-      description: fieldDescription,
+      description: withDocTags(fieldDescription, [
+        getDefaultValueTag(defaultValue, type),
+      ]),
       args: null,
       type: definition,
     });
@@ -238,18 +298,23 @@ export function parseUnionType(type: GraphQLUnionType): Union {
 /**
  * Parses GQL operation variables
  * @param {VariableDefinitionNode[]} nodes
+ * @param inputScalars
  * @returns {PreparedObject<true>}
  */
 export function parseOperationVariableDefinitions(
   nodes: VariableDefinitionNode[],
+  inputScalars: string[] = [],
 ): PreparedObject<true> {
   return nodes.reduce<PreparedObject<true>>((acc, n) => {
-    const {variable, type} = n;
-    const {definition, importTypes} = getTypeNodeDefinition(type);
+    const {variable, type, defaultValue} = n;
+    const {definition, importTypes} =
+      getTypeNodeDefinition(type, [], true, inputScalars);
 
+    // Nullable and defaulted variables could be omitted
     acc.fields.push({
       name: variable.name.value,
       type: definition,
+      optional: type.kind !== 'NonNullType' || defaultValue !== undefined,
     });
 
     importTypes.forEach(t => {
@@ -270,44 +335,104 @@ export function parseOperationVariableDefinitions(
  * Gets selection's set required types and definition
  * @param {SelectionSetNode} selectionSet
  * @param nspName
+ * @param type
+ * @param schema
+ * @param fragments
  * @returns {string}
  */
 export function selectionSetToObjectFields(
   selectionSet: SelectionSetNode,
   nspName: string,
+  type: GraphQLObjectType | GraphQLInterfaceType,
+  schema: GraphQLSchema,
+  fragments: FragmentsMap = {},
 ): PreparedObjectField[] {
-  return selectionSet.selections.reduce<PreparedObjectField[]>((acc, s) => {
-    // TODO: Fragments support
-    if (s.kind === 'Field') {
-      const name = s.name.value;
-      acc.push({
-        name,
-        type: `${nspName}.${name}`,
-      });
-    }
-    return acc;
-  }, [])
+  const fields = type.getFields();
+
+  return getSelectionSetFields(selectionSet, type, schema, fragments).map(f => {
+    const name = getFieldNodeResponseName(f);
+    const field = fields[f.name.value];
+
+    return {
+      name,
+      type: `${nspName}.${name}`,
+      optional: isFieldNodeConditional(f),
+      deprecationReason: field ? field.deprecationReason : undefined,
+    };
+  });
 }
 
 /**
  * Converts selection set to namespace fields
  * @param {SelectionSetNode} selectionSet
  * @param rootNode
+ * @param schema
  * @param path
+ * @param fragments
  * @returns {OperationNamespaceField[]}
  */
 export function selectionSetToNamespaceFields(
   selectionSet: SelectionSetNode,
-  rootNode: GraphQLObjectType,
+  rootNode: GraphQLObjectType | GraphQLInterfaceType,
+  schema: GraphQLSchema,
   path = '',
+  fragments: FragmentsMap = {},
 ): OperationNamespaceField[] {
-  return selectionSet.selections.reduce<OperationNamespaceField[]>((acc, s) => {
-    // TODO: Fragments support
-    if (s.kind === 'Field') {
-      acc.push(fieldNodeToNamespaceField(s, rootNode, path));
-    }
-    return acc;
-  }, []);
+  const type = path.length > 0
+    ? getFirstNonWrappingType(getIn(rootNode, path).type)
+    : rootNode;
+
+  return getSelectionSetFields(selectionSet, type, schema, fragments).map(f => {
+    return fieldNodeToNamespaceField(f, rootNode, schema, path, fragments);
+  });
+}
+
+/**
+ * Converts selection set of abstract type to namespace fields, each of them
+ * describes selection for one of possible types. Each of possible types has
+ * to select "__typename" field, so their union is discriminated
+ * @param {SelectionSetNode} selectionSet
+ * @param {GraphQLAbstractType} type
+ * @param {GraphQLSchema} schema
+ * @param {FragmentsMap} fragments
+ * @returns {OperationNamespaceField[]}
+ */
+export function selectionSetToVariants(
+  selectionSet: SelectionSetNode,
+  type: GraphQLAbstractType,
+  schema: GraphQLSchema,
+  fragments: FragmentsMap = {},
+): OperationNamespaceField[] {
+  const possibleTypes = schema.getPossibleTypes(type);
+  const isDiscriminated = possibleTypes.every(t => {
+    return getSelectionSetFields(selectionSet, t, schema, fragments).some(f => {
+      return f.name.value === '__typename'
+        && getFieldNodeResponseName(f) === '__typename'
+        && !isFieldNodeConditional(f);
+    });
+  });
+
+  if (!isDiscriminated) {
+    throw toLocatedError(new Error(
+      `Selection of ${type.name} is compiled as a union of its possible `
+      + 'types. Select __typename field without alias and conditions to '
+      + 'discriminate them',
+    ), selectionSet);
+  }
+
+  return possibleTypes.map(t => ({
+    name: t.name,
+    type: {
+      name: t.name,
+      fields: selectionSetToObjectFields(
+        selectionSet, t.name, t, schema, fragments,
+      ),
+      outputType: new GraphQLNonNull(t),
+    },
+    fields: selectionSetToNamespaceFields(
+      selectionSet, t, schema, '', fragments,
+    ),
+  }));
 }
 
 /**
@@ -315,16 +440,30 @@ export function selectionSetToNamespaceFields(
  * @param {SelectionSetNode} selectionSet
  * @param {string} compiledName
  * @param {PreparedObject} args
- * @param {GraphQLObjectType} rootNode
+ * @param rootNode
+ * @param schema
+ * @param fragments
  * @returns {OperationRootNamespace}
  */
 export function selectionSetToRootNamespace(
   selectionSet: SelectionSetNode,
   compiledName: string,
-  args: PreparedObject,
-  rootNode: GraphQLObjectType,
+  args: PreparedObject | null,
+  rootNode: GraphQLNamedType,
+  schema: GraphQLSchema,
+  fragments: FragmentsMap = {},
 ): OperationRootNamespace {
-  const nspFields = selectionSetToNamespaceFields(selectionSet, rootNode);
+  let nspFields: OperationNamespaceField[];
+
+  if (isSelectionSetPolymorphic(selectionSet, rootNode, fragments)) {
+    nspFields = selectionSetToVariants(selectionSet, rootNode, schema, fragments);
+  } else if (isObjectType(rootNode) || isInterfaceType(rootNode)) {
+    nspFields = selectionSetToNamespaceFields(
+      selectionSet, rootNode, schema, '', fragments,
+    );
+  } else {
+    throw new Error(`Unable to select fields of type ${rootNode.name}`);
+  }
   const importTypes = nspFields.flatMap(getImportTypes);
 
   return {
@@ -349,7 +488,7 @@ export function getImportTypes(field: OperationNamespaceField): string[] {
     }
   }
 
-  if (field.type.importTypes) {
+  if ('importTypes' in field.type && field.type.importTypes) {
     field.type.importTypes.forEach(addType);
   }
   if (field.fields) {
@@ -361,65 +500,145 @@ export function getImportTypes(field: OperationNamespaceField): string[] {
 /**
  * Converts FieldNode to OperationNamespaceField
  * @param {FieldNode} node
- * @param {GraphQLObjectType} rootNode
+ * @param rootNode
+ * @param schema
  * @param {string} prevPath
+ * @param fragments
  * @returns {OperationNamespaceField}
  */
 export function fieldNodeToNamespaceField(
   node: FieldNode,
-  rootNode: GraphQLObjectType,
+  rootNode: GraphQLObjectType | GraphQLInterfaceType,
+  schema: GraphQLSchema,
   prevPath: string,
+  fragments: FragmentsMap = {},
 ): OperationNamespaceField {
-  const nodeName = node.name.value;
-  const path = prevPath.length > 0 ? `${prevPath}.${nodeName}` : nodeName;
-  const outputType = getIn(rootNode, path).type;
+  // Schema is searched by field name, while compiled types use name of
+  // field in response, which can be an alias
+  const fieldName = node.name.value;
+  const nodeName = getFieldNodeResponseName(node);
+  const path = prevPath.length > 0 ? `${prevPath}.${fieldName}` : fieldName;
+
+  // __typename is not presented in type fields. Its value is always the name
+  // of type
+  if (fieldName === '__typename') {
+    const parentType = prevPath.length > 0
+      ? getFirstNonWrappingType(getIn(rootNode, prevPath).type)
+      : rootNode;
+
+    return {
+      name: nodeName,
+      type: {
+        definition: getTypenameDefinition(parentType, schema),
+        importTypes: [],
+      },
+    };
+  }
+  let outputType: GraphQLOutputType;
+  let description: string | undefined;
+
+  // Descriptions of schema fields are propagated to result fields
+  try {
+    const field = getIn(rootNode, path);
+    outputType = field.type;
+    description = withDocTags(field.description, [
+      getDeprecationTag(field.deprecationReason),
+    ]);
+  } catch (e) {
+    throw toLocatedError(e, node);
+  }
+  const type = getFirstNonWrappingType(outputType);
 
   if (node.selectionSet) {
+    const {selectionSet} = node;
+
+    // Selection of abstract type with fragments becomes union of selections
+    // of each possible type
+    if (isSelectionSetPolymorphic(selectionSet, type, fragments)) {
+      const variants =
+        selectionSetToVariants(selectionSet, type, schema, fragments);
+
+      return {
+        name: nodeName,
+        description,
+        type: {
+          name: nodeName,
+          types: variants.map(v => `${nodeName}.${v.name}`),
+          outputType,
+        },
+        fields: variants,
+      };
+    }
+    if (!isObjectType(type) && !isInterfaceType(type)) {
+      throw new Error(`Unable to select fields of path ${path}`);
+    }
+
     return {
       name: nodeName,
+      description,
       type: {
         name: nodeName,
-        fields: node.selectionSet.selections.reduce<PreparedObjectField[]>((acc, s) => {
-          // TODO: Fragments support
-          if (s.kind === 'Field') {
-            const selectionName = s.name.value;
-            acc.push({
-              name: selectionName,
-              type: `${nodeName}.${selectionName}`,
-            });
-          }
-          return acc;
-        }, []),
+        fields: selectionSetToObjectFields(
+          selectionSet, nodeName, type, schema, fragments,
+        ),
         outputType,
       },
-      fields: selectionSetToNamespaceFields(node.selectionSet, rootNode, path),
+      fields: selectionSetToNamespaceFields(
+        selectionSet, rootNode, schema, path, fragments,
+      ),
     }
   }
   return {
     name: nodeName,
+    description,
     type: getIOTypeDefinition(outputType),
   }
 }
 
+/**
+ * Returns definition signature with signatures of all fragments it uses
+ * @param {OperationDefinitionNode | FragmentDefinitionNode} node
+ * @param {FragmentsMap} fragments
+ * @returns {string}
+ */
+export function getDefinitionSignature(
+  node: OperationDefinitionNode | FragmentDefinitionNode,
+  fragments: FragmentsMap = {},
+): string {
+  const {loc, selectionSet} = node;
+  const fragmentNames = getSelectionSetFragmentNames(selectionSet, fragments)
+    .filter(n => node.kind !== 'FragmentDefinition' || n !== node.name.value);
+
+  return fragmentNames.reduce((acc, n) => {
+    const {loc} = fragments[n];
+    return acc + '\n\n' + loc.source.body.slice(loc.start, loc.end);
+  }, loc.source.body.slice(loc.start, loc.end));
+}
+
 /**
  * Parses GQL operation
  * @param {OperationDefinitionNode} node
  * @param {GraphQLSchema} schema
- * @param operationsString
+ * @param fragments
+ * @param inputScalars
  * @returns {Operation}
  */
 export function parseOperationDefinitionNode(
   node: OperationDefinitionNode,
   schema: GraphQLSchema,
-  operationsString: string,
+  fragments: FragmentsMap = {},
+  inputScalars: string[] = [],
 ): Operation {
-  const {name, selectionSet, operation, variableDefinitions, loc} = node;
+  const {name, selectionSet, operation, variableDefinitions} = node;
   const operationName = getCompiledOperationName(name.value, operation);
   const operationNamespaceName =
     getCompiledOperationNamespaceName(name.value, operation);
   const rootNode = getOperationRootNode(schema, operation);
   const importTypes: string[] = [];
 
+  // Signature is got first as it checks fragments do not spread themselves
+  const signature = getDefinitionSignature(node, fragments);
+
   const addImportTypes = (types: string[]) => types.forEach(t => {
     if (!importTypes.includes(t)) {
       importTypes.push(t);
@@ -429,25 +648,98 @@ export function parseOperationDefinitionNode(
   // Selection
   const selection: PreparedObject = {
     name: operationName,
-    fields: selectionSetToObjectFields(selectionSet, operationNamespaceName),
+    fields: selectionSetToObjectFields(
+      selectionSet, operationNamespaceName, rootNode, schema, fragments,
+    ),
   };
 
   // Arguments
-  const args = parseOperationVariableDefinitions([...variableDefinitions]);
+  const args = parseOperationVariableDefinitions(
+    [...variableDefinitions], inputScalars,
+  );
   addImportTypes(args.importTypes);
 
   // Namespace
   const namespace = selectionSetToRootNamespace(
-    selectionSet, operationNamespaceName, args, rootNode,
+    selectionSet, operationNamespaceName, args, rootNode, schema, fragments,
   );
   addImportTypes(namespace.importTypes);
 
   return {
     __type: 'operation',
+    operation,
+    originalName: name.value,
     name: operationName,
-    signature: operationsString.slice(loc.start, loc.end),
+    signature,
     selection,
     namespace,
     importTypes,
   }
 }
+
+/**
+ * Parses GQL fragment
+ * @param {FragmentDefinitionNode} node
+ * @param {GraphQLSchema} schema
+ * @param {FragmentsMap} fragments
+ * @returns {Fragment}
+ */
+export function parseFragmentDefinitionNode(
+  node: FragmentDefinitionNode,
+  schema: GraphQLSchema,
+  fragments: FragmentsMap = {},
+): Fragment {
+  const {name, selectionSet, typeCondition} = node;
+  const fragmentName = getCompiledOperationName(name.value, 'fragment');
+  const fragmentNamespaceName =
+    getCompiledOperationNamespaceName(name.value, 'fragment');
+  const rootNode = schema.getType(typeCondition.name.value);
+  const importTypes: string[] = [];
+
+  if (!rootNode) {
+    throw new Error(
+      `Unable to find type ${typeCondition.name.value} used as fragment `
+      + `${name.value} type condition`,
+    );
+  }
+
+  // Signature is got first as it checks fragments do not spread themselves
+  const signature = getDefinitionSignature(node, fragments);
+
+  // Namespace
+  const namespace = selectionSetToRootNamespace(
+    selectionSet, fragmentNamespaceName, null, rootNode, schema, fragments,
+  );
+  namespace.importTypes.forEach(t => {
+    if (!importTypes.includes(t)) {
+      importTypes.push(t);
+    }
+  });
+
+  // Selection. In case, type condition is abstract type and its selection
+  // depends on concrete type, selection is a union of namespace variants
+  let selection: PreparedObject | PreparedUnion;
+
+  if (isSelectionSetPolymorphic(selectionSet, rootNode, fragments)) {
+    selection = {
+      name: fragmentName,
+      types: namespace.fields.map(f => `${fragmentNamespaceName}.${f.name}`),
+    };
+  } else if (isObjectType(rootNode) || isInterfaceType(rootNode)) {
+    selection = {
+      name: fragmentName,
+      fields: selectionSetToObjectFields(
+        selectionSet, fragmentNamespaceName, rootNode, schema, fragments,
+      ),
+    };
+  }
+
+  return {
+    __type: 'fragment',
+    name: fragmentName,
+    signature,
+    selection,
+    namespace,
+    importTypes,
+  };
+}
@@ -1,15 +1,48 @@
 import * as ts from 'typescript';
 import * as fs from 'fs';
 import * as path from 'path';
+import {FilesMap, OutputModule, OutputOptions, OutputTarget} from '../types';
 
-export function transpileFile(
-  filePath: string,
+/**
+ * TypeScript module kinds by output module
+ */
+const moduleKinds: Record<OutputModule, ts.ModuleKind> = {
+  commonjs: ts.ModuleKind.CommonJS,
+  esm: ts.ModuleKind.ES2015,
+};
+
+/**
+ * TypeScript script targets by output target
+ */
+const scriptTargets: Record<OutputTarget, ts.ScriptTarget> = {
+  es3: ts.ScriptTarget.ES3,
+  es5: ts.ScriptTarget.ES5,
+  es2015: ts.ScriptTarget.ES2015,
+  es2016: ts.ScriptTarget.ES2016,
+  es2017: ts.ScriptTarget.ES2017,
+  es2018: ts.ScriptTarget.ES2018,
+  es2019: ts.ScriptTarget.ES2019,
+  es2020: ts.ScriptTarget.ES2020,
+  esnext: ts.ScriptTarget.ESNext,
+};
+
+/**
+ * Returns TypeScript compiler options depending on output options
+ * @param {boolean} removeComments
+ * @param {OutputOptions} output
+ * @returns {ts.CompilerOptions}
+ */
+function getCompilerOptions(
   removeComments: boolean,
-) {
-  const options: ts.CompilerOptions = {
+  output: OutputOptions,
+): ts.CompilerOptions {
+  const {mode = 'd.ts+js', module = 'commonjs', target = 'es5'} = output;
+
+  return {
     declaration: true,
+    emitDeclarationOnly: mode === 'd.ts',
     lib: ['esnext'],
-    module: ts.ModuleKind.CommonJS,
+    module: moduleKinds[module],
     moduleResolution: ts.ModuleResolutionKind.NodeJs,
     noUnusedLocals: true,
     noUnusedParameters: true,
@@ -18,22 +51,110 @@ export function transpileFile(
     skipLibCheck: true,
     strict: true,
     strictNullChecks: false,
-    target: ts.ScriptTarget.ES5,
+    target: scriptTargets[target],
   };
+}
 
+export function transpileFile(
+  filePath: string,
+  removeComments: boolean,
+  output: OutputOptions = {},
+) {
   // Transpile with typescript
+  const options = getCompilerOptions(removeComments, output);
   const program = ts.createProgram([filePath], options);
   program.emit();
 }
 
+/**
+ * Transpiles source without touching disk and returns emitted files. Source
+ * is considered placed in passed path, so relative imports are resolved
+ * from it
+ * @param {string} input
+ * @param {string} filePath
+ * @param {boolean} removeComments
+ * @param {OutputOptions} output
+ * @returns {FilesMap}
+ */
+export function transpileInMemory(
+  input: string,
+  filePath: string,
+  removeComments: boolean,
+  output: OutputOptions = {},
+): FilesMap {
+  const options = getCompilerOptions(removeComments, output);
+  const host = ts.createCompilerHost(options);
+  const {getSourceFile, fileExists, readFile} = host;
+  const emitted: FilesMap = {};
+
+  host.getSourceFile = (fileName, languageVersion, ...rest) => {
+    return fileName === filePath
+      ? ts.createSourceFile(fileName, input, languageVersion)
+      : getSourceFile(fileName, languageVersion, ...rest);
+  };
+  host.fileExists = fileName => fileName === filePath || fileExists(fileName);
+  host.readFile = fileName => {
+    return fileName === filePath ? input : readFile(fileName);
+  };
+  host.writeFile = (fileName, data) => {
+    emitted[path.resolve(fileName)] = data;
+  };
+
+  ts.createProgram([filePath], options, host).emit();
+
+  return emitted;
+}
+
+/**
+ * Writes files to disk or collects them into output files map if it was
+ * passed
+ * @param {FilesMap} files
+ * @param {OutputOptions} output
+ */
+export function writeOutputFiles(files: FilesMap, output: OutputOptions = {}) {
+  Object.entries(files).forEach(([filePath, content]) => {
+    if (output.files) {
+      output.files[filePath] = content;
+    } else {
+      fs.writeFileSync(filePath, content);
+    }
+  });
+}
+
 export function transpileWithFs(
   input: string,
   fileName: string,
   outputDirectory: string,
   removeDescription: boolean,
+  output: OutputOptions = {},
 ) {
   const filePath = path.resolve(outputDirectory, fileName);
-  fs.writeFileSync(filePath, input);
-  transpileFile(filePath, removeDescription);
-  fs.unlinkSync(filePath);
+
+  // TypeScript sources are written as they are. Comments are removed by
+  // reprinting source
+  if (output.mode === 'ts') {
+    const source = removeDescription
+      ? ts.createPrinter({removeComments: true}).printFile(
+        ts.createSourceFile(fileName, input, ts.ScriptTarget.Latest),
+      )
+      : input;
+
+    return writeOutputFiles({[filePath]: source}, output);
+  }
+  writeOutputFiles(
+    transpileInMemory(input, filePath, removeDescription, output),
+    output,
+  );
+}
+
+export function removeTranspiledFiles(fileName: string, outputDirectory: string) {
+  const {name} = path.parse(fileName);
+
+  [`${name}.ts`, `${name}.js`, `${name}.d.ts`].forEach(f => {
+    const filePath = path.resolve(outputDirectory, f);
+
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  });
 }